@@ -8,3 +8,40 @@ export const WHITESPACE_REGEX: RegExp = /\s/;
 export const LINEBREAK_REGEX: RegExp = /[\r\n]/;
 export const BLANKLINE_END_REGEX: RegExp = /\n\r?\n$/;
 export const BLANKLINE_START_REGEX: RegExp = /^\r?\n\r?\n/;
+
+/**
+ * Default boundaries for word mode: runs of whitespace and single ASCII
+ * punctuation characters (except the underscore).
+ */
+export const WORD_BOUNDARY_REGEX: RegExp = /\s+|[!-/:-@[-^`{-~]/;
+
+/**
+ * Default tokens of DIFF_CODE: a string literal, a number, an identifier, a
+ * run of spaces, a line break, an operator or any other single character.
+ */
+export const CODE_TOKEN_REGEX: RegExp = /"(?:[^"\\\r\n]|\\[\s\S])*"?|'(?:[^'\\\r\n]|\\[\s\S])*'?|`(?:[^`\\]|\\[\s\S])*`?|0[xXbBoO][\da-fA-F_]+n?|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d+)?[a-zA-Z]*|[A-Za-z_$\u00AA-\uFFFF][\w$\u00AA-\uFFFF]*|[^\S\r\n]+|\r\n|[\r\n]|>>>=|===|!==|\*\*=|<<=|>>=|>>>|\.\.\.|&&=|\|\|=|\?\?=|=>|->|::|==|!=|<=|>=|&&|\|\||\?\?|\?\.|\+\+|--|\+=|-=|\*=|\/=|%=|&=|\|=|\^=|<<|>>|\*\*|[\s\S]/g;
+
+/**
+ * Approximates a grapheme cluster where Intl.Segmenter is not available:
+ * CRLF, a pair of regional indicators (a flag) or a code point followed by
+ * its combining marks, variation selectors, skin tone modifiers, tags and
+ * ZWJ joined code points.
+ */
+export const GRAPHEME_REGEX: RegExp = /\r\n|(?:\uD83C[\uDDE6-\uDDFF]){2}|(?:[\uD800-\uDBFF][\uDC00-\uDFFF]|[\s\S])(?:\u200D(?:[\uD800-\uDBFF][\uDC00-\uDFFF]|[^\r\n])|[\u0300-\u036F\u0483-\u0489\u0591-\u05BD\u0610-\u061A\u064B-\u065F\u0900-\u0903\u093A-\u094F\u1AB0-\u1AFF\u1DC0-\u1DFF\u200C\u200D\u20D0-\u20FF\uFE00-\uFE0F\uFE20-\uFE2F]|\uD83C[\uDFFB-\uDFFF]|\uDB40[\uDC20-\uDC7F])*/g;
+
+/**
+ * A git-style conflict marker line: seven of "<", "|", "=" or ">", on their own
+ * or followed by a label.
+ */
+export const CONFLICT_MARKER_REGEX: RegExp = /^(<{7}|\|{7}|={7}|>{7})(?:[ \r\n]|$)/;
+
+/**
+ * A Chinese or Japanese character: hiragana, katakana or a CJK ideograph.
+ */
+export const CJK_REGEX: RegExp = /[\u3040-\u30FF\u31F0-\u31FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF66-\uFF9F]/;
+
+/**
+ * Approximates a word where Intl.Segmenter is not available: a run of CJK
+ * ideographs, a run of katakana or any other code point.
+ */
+export const CJK_WORD_REGEX: RegExp = /[\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF]+|[\u30A0-\u30FF\u31F0-\u31FF\uFF66-\uFF9F]+|[\uD800-\uDBFF][\uDC00-\uDFFF]|[\s\S]/g;
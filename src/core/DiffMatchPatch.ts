@@ -2,12 +2,46 @@ import
 {
     BLANKLINE_END_REGEX,
     BLANKLINE_START_REGEX,
+    CJK_REGEX,
+    CODE_TOKEN_REGEX,
+    CONFLICT_MARKER_REGEX,
     LINEBREAK_REGEX,
-    NON_ALPHA_NUMERIC_REGEX,
-    WHITESPACE_REGEX
+    WHITESPACE_REGEX,
+    WORD_BOUNDARY_REGEX
 } from "../constants";
-import { Diff, DiffOperation, HalfMatchArray, PatchApplyArray } from "../types";
-import { math } from "../utils";
+import
+{
+    AbortSignalLike,
+    Diff,
+    DiffAlgorithm,
+    DiffAnsiOptions,
+    DiffAsyncOptions,
+    DiffBoundaryScorer,
+    DiffGranularity,
+    DiffHtmlOptions,
+    DiffInfo,
+    DiffLine,
+    DiffMove,
+    DiffOperation,
+    DiffProgress,
+    DiffProgressStage,
+    DiffRange,
+    DiffRegion,
+    DiffRow,
+    DiffRowKind,
+    DiffStats,
+    DiffTokenizer,
+    HalfMatchArray,
+    MatchCloseOptions,
+    MatchScore,
+    MergeRegion,
+    MergeResult,
+    MergeStrategy,
+    PatchApplyArray,
+    PatchUnifiedOptions,
+    SequenceDiff
+} from "../types";
+import { math, unicode } from "../utils";
 import { PatchObject } from "./PatchObject";
 
 /**
@@ -37,6 +71,77 @@ import { PatchObject } from "./PatchObject";
  * Ported by [xiaochao.k@gmail.com](https://github.com/nonoroazoro)
  */
 
+/**
+ * The state of a bisection between its steps, see diff_bisectStep_. The items
+ * are the characters of strings or the items of sequences.
+ */
+interface BisectState<T>
+{
+    items1: ArrayLike<T>;
+    items2: ArrayLike<T>;
+    equals: ((a: T, b: T) => boolean) | null;
+    v1: number[];
+    v2: number[];
+    vOffset: number;
+    k1Start: number;
+    k1End: number;
+    k2Start: number;
+    k2End: number;
+    x: number;
+    y: number;
+}
+
+/**
+ * The algorithm steps a diff may still take, see diffStepBudget, and whether
+ * (and where) it ran out of them or of time, see diff_mainWithInfo.
+ */
+interface DiffBudget
+{
+    steps: number;
+    truncated: boolean;
+    approximated: DiffRegion[];
+}
+
+/**
+ * The operations diff_cleanupMergeParts_ needs on the parts of diff tuples,
+ * which are strings for diff_cleanupMerge and arrays for
+ * diff_sequenceCleanupMerge.
+ */
+interface DiffParts<S>
+{
+    empty: S;
+    concat: (one: S, two: S) => S;
+    slice: (part: S, start: number, end?: number) => S;
+    commonPrefix: (one: S, two: S) => number;
+    commonSuffix: (one: S, two: S) => number;
+    startsWith: (part: S, start: S) => boolean;
+    endsWith: (part: S, end: S) => boolean;
+}
+
+/**
+ * The occurrences of the indices in a range of an array, see
+ * diff_histogramRegion_: how often each index occurs, and the position of its
+ * first and of the next occurrence. Reused by all the ranges of a diff, and
+ * zero counted between them.
+ */
+interface Histogram
+{
+    counts: number[];
+    firsts: number[];
+    nexts: number[];
+}
+
+/**
+ * An edit of the base text made by one side of a merge, see merge_hunks_.
+ */
+interface MergeHunk
+{
+    start: number;
+    end: number;
+    text: string;
+    side: number;
+}
+
 /**
  * Class containing the diff, match and patch methods.
  */
@@ -50,11 +155,84 @@ export class DiffMatchPatch
      */
     public diffTimeout = 1.0;
 
+    /**
+     * Number of algorithm steps (diagonals explored while bisecting) to map a
+     * diff before giving up (0 for infinity). Unlike diffTimeout this gives the
+     * same result on every machine, so diffTimeout is ignored when it is set.
+     */
+    public diffStepBudget = 0;
+
     /**
      * Cost of an empty edit operation in terms of edit characters.
      */
     public diffEditCost = 4;
 
+    /**
+     * The atomic unit that diff_main compares (characters, whole words, graphemes
+     * or code tokens), which the cleanups and patches never split either.
+     */
+    public diffGranularity = DiffGranularity.DIFF_CHARACTER;
+
+    /**
+     * Scores the boundaries between edits and equalities, which
+     * diff_cleanupSemanticLossless shifts edits to. Null for the default,
+     * diff_boundaryScore, which knows the letters and numbers of all scripts.
+     */
+    public diffBoundaryScorer: DiffBoundaryScorer | null = null;
+
+    /**
+     * Boundaries used to split texts into words, see diff_wordsToChars.
+     * Each match is a token of its own, the text between matches is a word.
+     */
+    public diffWordBoundary = WORD_BOUNDARY_REGEX;
+
+    /**
+     * Splits texts into tokens in DIFF_CODE, see diff_codeToChars. Null for the
+     * default, diff_codeTokens.
+     */
+    public diffCodeTokenizer: DiffTokenizer | null = null;
+
+    /**
+     * The algorithm that aligns the lines of the line-level diff (see the
+     * optChecklines of diff_main).
+     */
+    public diffAlgorithm = DiffAlgorithm.DIFF_MYERS;
+
+    /**
+     * Never split a surrogate pair (e.g. an emoji) between two diffs, so that
+     * diffs, deltas and patches always hold well-formed UTF-16.
+     */
+    public surrogateSafe = false;
+
+    /**
+     * Compare upper and lower case letters as equal.
+     * Like the other diffIgnore options, this diffs a normalized view of the
+     * texts. Ignored changes still show up as the smallest edits that rebuild
+     * the original texts, but no longer throw off the alignment of the rest.
+     */
+    public diffIgnoreCase = false;
+
+    /**
+     * Compare runs of whitespace within a line as equal, whatever their amount.
+     */
+    public diffIgnoreWhitespace = false;
+
+    /**
+     * Compare line endings ("\r\n", "\r" and "\n") as equal.
+     */
+    public diffIgnoreLineEndings = false;
+
+    /**
+     * Minimum length of a deleted or inserted block to be a move, see diff_moves.
+     */
+    public diffMoveMinLength = 32;
+
+    /**
+     * At what point is no move declared (0.0 = blocks moved as is, 1.0 = very
+     * loose).
+     */
+    public diffMoveThreshold = 0.2;
+
     /**
      * At what point is no match declared (0.0 = perfection, 1.0 = very loose).
      */
@@ -102,68 +280,103 @@ export class DiffMatchPatch
      */
     public diff_main(text1: string, text2: string, optChecklines?: boolean, optDeadline?: number): Diff[]
     {
-        // Set a deadline by which time the diff must be complete.
-        if (typeof optDeadline === "undefined")
-        {
-            if (this.diffTimeout <= 0)
-            {
-                optDeadline = Number.MAX_VALUE;
-            }
-            else
-            {
-                optDeadline = Date.now() + this.diffTimeout * 1000;
-            }
-        }
-        const deadline = optDeadline;
+        return this.diff_run_(this.diff_mainSteps_(text1, text2, optChecklines, optDeadline));
+    }
 
-        // Check for null inputs.
-        if (text1 == null || text2 == null)
-        {
-            throw new Error("Null input. (diff_main)");
-        }
+    /**
+     * Find the differences between two texts like diff_main, and tell whether
+     * the diff ran out of time (or steps) and which regions it approximated.
+     *
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {boolean} [optChecklines] Optional speedup flag, see diff_main.
+     * @returns {DiffInfo} Array of diff tuples and how they were computed.
+     */
+    public diff_mainWithInfo(text1: string, text2: string, optChecklines?: boolean): DiffInfo
+    {
+        const start = Date.now();
+        const budget = this.diff_budget_();
+        const diffs = this.diff_run_(this.diff_mainSteps_(text1, text2, optChecklines, undefined, budget));
+        return {
+            diffs,
+            truncated: budget.truncated,
+            elapsed: Date.now() - start,
+            approximated: budget.approximated
+        };
+    }
 
-        // Check for equality (speedup).
-        if (text1 === text2)
+    /**
+     * Find the differences between two texts like diff_main, without blocking
+     * the event loop: the work is done in slices, between which the
+     * signal is checked and other tasks may run.
+     * The diffTimeout still applies, counting the time spent between slices.
+     *
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {boolean} [optChecklines] Optional speedup flag, see diff_main.
+     * @param {DiffAsyncOptions} [optOptions] Optional signal, progress callback
+     * and slice length.
+     * @returns {Promise<Diff[]>} Array of diff tuples, the same as diff_main's.
+     * Rejects with the reason of the signal when aborted.
+     */
+    public diff_mainAsync(
+        text1: string,
+        text2: string,
+        optChecklines?: boolean,
+        optOptions?: DiffAsyncOptions
+    ): Promise<Diff[]>
+    {
+        if (typeof optOptions === "undefined")
         {
-            if (text1)
-            {
-                return [[DiffOperation.DIFF_EQUAL, text1]];
-            }
-            return [];
+            optOptions = {};
         }
-
-        if (typeof optChecklines === "undefined")
+        const options = optOptions;
+        const sliceLength = typeof options.sliceLength === "undefined" ? 10 : options.sliceLength;
+        const steps = this.diff_mainSteps_(text1, text2, optChecklines);
+        return new Promise<Diff[]>((resolve, reject) =>
         {
-            optChecklines = true;
-        }
-        const checklines = optChecklines;
-
-        // Trim off common prefix (speedup).
-        let commonlength = this.diff_commonPrefix(text1, text2);
-        const commonprefix = text1.substring(0, commonlength);
-        text1 = text1.substring(commonlength);
-        text2 = text2.substring(commonlength);
-
-        // Trim off common suffix (speedup).
-        commonlength = this.diff_commonSuffix(text1, text2);
-        const commonsuffix = text1.substring(text1.length - commonlength);
-        text1 = text1.substring(0, text1.length - commonlength);
-        text2 = text2.substring(0, text2.length - commonlength);
-
-        // Compute the diff on the middle block.
-        const diffs: Diff[] = this.diff_compute_(text1, text2, checklines, deadline);
+            const aborted = () => typeof options.signal !== "undefined" && options.signal.aborted;
+            const runSlice = () =>
+            {
+                const sliceEnd = Date.now() + sliceLength;
+                try
+                {
+                    // Check the signal before every step and before every
+                    // progress report, it may be aborted by either.
+                    while (!aborted())
+                    {
+                        const step = steps.next();
+                        if (step.done)
+                        {
+                            resolve(step.value);
+                            return;
+                        }
+                        if (aborted())
+                        {
+                            break;
+                        }
+                        if (options.onProgress)
+                        {
+                            options.onProgress(step.value);
+                        }
+                        if (Date.now() >= sliceEnd)
+                        {
+                            // Let other tasks run.
+                            setTimeout(runSlice, 0);
+                            return;
+                        }
+                    }
+                }
+                catch (e: unknown)
+                {
+                    reject(e);
+                    return;
+                }
+                reject(this.diff_abortReason_(options.signal));
+            };
 
-        // Restore the prefix and suffix.
-        if (commonprefix)
-        {
-            diffs.unshift([DiffOperation.DIFF_EQUAL, commonprefix]);
-        }
-        if (commonsuffix)
-        {
-            diffs.push([DiffOperation.DIFF_EQUAL, commonsuffix]);
-        }
-        this.diff_cleanupMerge(diffs);
-        return diffs;
+            runSlice();
+        });
     }
 
     /**
@@ -175,34 +388,7 @@ export class DiffMatchPatch
      */
     public diff_commonPrefix(text1: string, text2: string): number
     {
-        // Quick check for common null cases.
-        if (!text1 ||
-            !text2 ||
-            text1.charAt(0) !== text2.charAt(0))
-        {
-            return 0;
-        }
-        // Binary search.
-        // Performance analysis: https://neil.fraser.name/news/2007/10/09/
-        let pointermin = 0;
-        let pointermax = math.min(text1.length, text2.length);
-        let pointermid = pointermax;
-        let pointerstart = 0;
-        while (pointermin < pointermid)
-        {
-            if (text1.substring(pointerstart, pointermid) ===
-                text2.substring(pointerstart, pointermid))
-            {
-                pointermin = pointermid;
-                pointerstart = pointermin;
-            }
-            else
-            {
-                pointermax = pointermid;
-            }
-            pointermid = Math.floor((pointermax - pointermin) / 2 + pointermin);
-        }
-        return pointermid;
+        return this.diff_commonPrefix_(text1, text2, false);
     }
 
     /**
@@ -214,34 +400,7 @@ export class DiffMatchPatch
      */
     public diff_commonSuffix(text1: string, text2: string): number
     {
-        // Quick check for common null cases.
-        if (!text1 ||
-            !text2 ||
-            text1.charAt(text1.length - 1) !== text2.charAt(text2.length - 1))
-        {
-            return 0;
-        }
-        // Binary search.
-        // Performance analysis: https://neil.fraser.name/news/2007/10/09/
-        let pointermin = 0;
-        let pointermax = math.min(text1.length, text2.length);
-        let pointermid = pointermax;
-        let pointerend = 0;
-        while (pointermin < pointermid)
-        {
-            if (text1.substring(text1.length - pointermid, text1.length - pointerend) ===
-                text2.substring(text2.length - pointermid, text2.length - pointerend))
-            {
-                pointermin = pointermid;
-                pointerend = pointermin;
-            }
-            else
-            {
-                pointermax = pointermid;
-            }
-            pointermid = Math.floor((pointermax - pointermin) / 2 + pointermin);
-        }
-        return pointermid;
+        return this.diff_commonSuffix_(text1, text2, false);
     }
 
     /**
@@ -340,8 +499,8 @@ export class DiffMatchPatch
             {
                 const deletion = diffs[pointer - 1][1];
                 const insertion = diffs[pointer][1];
-                const overlapLength1 = this.diff_commonOverlap_(deletion, insertion);
-                const overlapLength2 = this.diff_commonOverlap_(insertion, deletion);
+                const overlapLength1 = this.diff_commonAtomicOverlap_(deletion, insertion);
+                const overlapLength2 = this.diff_commonAtomicOverlap_(insertion, deletion);
                 if (overlapLength1 >= overlapLength2)
                 {
                     if (overlapLength1 >= deletion.length / 2 ||
@@ -355,7 +514,7 @@ export class DiffMatchPatch
                         );
                         diffs[pointer - 1][1] = deletion.substring(0, deletion.length - overlapLength1);
                         diffs[pointer + 1][1] = insertion.substring(overlapLength1);
-                        pointer++;
+                        pointer = this.diff_cleanupOverlapEdits_(diffs, pointer);
                     }
                 }
                 else
@@ -374,7 +533,7 @@ export class DiffMatchPatch
                         diffs[pointer - 1][1] = insertion.substring(0, insertion.length - overlapLength2);
                         diffs[pointer + 1][0] = DiffOperation.DIFF_DELETE;
                         diffs[pointer + 1][1] = deletion.substring(overlapLength2);
-                        pointer++;
+                        pointer = this.diff_cleanupOverlapEdits_(diffs, pointer);
                     }
                 }
                 pointer++;
@@ -383,6 +542,115 @@ export class DiffMatchPatch
         }
     }
 
+    /**
+     * Reduce the number of edits like diff_cleanupSemantic, then widen the
+     * edits which split a Chinese or Japanese word to the whole word, in the
+     * old and in the new text. Having no spaces, such text otherwise ends up
+     * with edits of single characters.
+     * Words are found by Intl.Segmenter where available, otherwise they are
+     * approximated by runs of ideographs or of katakana.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     */
+    public diff_cleanupSemanticCjk(diffs: Diff[]): void
+    {
+        this.diff_cleanupSemantic(diffs);
+        const words1 = this.diff_cjkWords_(this.diff_text1(diffs));
+        const words2 = this.diff_cjkWords_(this.diff_text2(diffs));
+
+        const result: Diff[] = [];
+        let textDelete = "";
+        let textInsert = "";
+        // Merge neighbouring edits as diff_cleanupMerge would, but without
+        // factoring out their common prefixes and suffixes.
+        const flush = () =>
+        {
+            if (textDelete)
+            {
+                result.push([DiffOperation.DIFF_DELETE, textDelete]);
+            }
+            if (textInsert)
+            {
+                result.push([DiffOperation.DIFF_INSERT, textInsert]);
+            }
+            textDelete = "";
+            textInsert = "";
+        };
+
+        let pointer1 = 0;
+        let pointer2 = 0;
+        for (let x = 0; x < diffs.length; x++)
+        {
+            const text = diffs[x][1];
+            switch (diffs[x][0])
+            {
+                case DiffOperation.DIFF_DELETE:
+                    textDelete += text;
+                    pointer1 += text.length;
+                    break;
+                case DiffOperation.DIFF_INSERT:
+                    textInsert += text;
+                    pointer2 += text.length;
+                    break;
+                case DiffOperation.DIFF_EQUAL:
+                {
+                    // Widen the edits on either side of the equality until
+                    // they end on word boundaries of both texts.
+                    let head = 0;
+                    let tail = 0;
+                    if (x > 0)
+                    {
+                        let last = -1;
+                        while (head !== last && head < text.length)
+                        {
+                            last = head;
+                            head = math.max(
+                                words1.ends[pointer1 + head] - pointer1,
+                                words2.ends[pointer2 + head] - pointer2
+                            );
+                        }
+                    }
+                    if (x < diffs.length - 1)
+                    {
+                        let last = -1;
+                        while (tail !== last && head + tail < text.length)
+                        {
+                            last = tail;
+                            tail = math.max(
+                                pointer1 + text.length - words1.starts[pointer1 + text.length - tail],
+                                pointer2 + text.length - words2.starts[pointer2 + text.length - tail]
+                            );
+                        }
+                    }
+                    if (head + tail >= text.length)
+                    {
+                        // The equality is part of the words of the edits.
+                        textDelete += text;
+                        textInsert += text;
+                    }
+                    else
+                    {
+                        textDelete += text.substring(0, head);
+                        textInsert += text.substring(0, head);
+                        flush();
+                        result.push([DiffOperation.DIFF_EQUAL, text.substring(head, text.length - tail)]);
+                        textDelete += text.substring(text.length - tail);
+                        textInsert += text.substring(text.length - tail);
+                    }
+                    pointer1 += text.length;
+                    pointer2 += text.length;
+                    break;
+                }
+            }
+        }
+        flush();
+        diffs.length = 0;
+        for (let x = 0; x < result.length; x++)
+        {
+            diffs.push(result[x]);
+        }
+    }
+
     /**
      * Look for single edits surrounded on both sides by equalities
      * which can be shifted sideways to align the edit to a word boundary.
@@ -415,11 +683,16 @@ export class DiffMatchPatch
                 }
 
                 // Second, step character by character right, looking for the best fit.
+                // Only stop where no pair or token is cut (see surrogateSafe and diffGranularity).
+                const boundaries = this.diffGranularity !== DiffGranularity.DIFF_CHARACTER
+                    ? this.diff_tokenBoundaries_(equality1 + edit + equality2)
+                    : null;
                 let bestEquality1 = equality1;
                 let bestEdit = edit;
                 let bestEquality2 = equality2;
-                let bestScore = this.diff_cleanupSemanticScore_(equality1, edit)
-                    + this.diff_cleanupSemanticScore_(edit, equality2);
+                let bestScore = this.diff_isAtomicSplit_(equality1, edit, equality2, boundaries)
+                    ? this.diff_cleanupSemanticScore_(equality1, edit) + this.diff_cleanupSemanticScore_(edit, equality2)
+                    : -1;
                 while (edit.charAt(0) === equality2.charAt(0))
                 {
                     equality1 += edit.charAt(0);
@@ -428,7 +701,7 @@ export class DiffMatchPatch
                     const score = this.diff_cleanupSemanticScore_(equality1, edit)
                         + this.diff_cleanupSemanticScore_(edit, equality2);
                     // The >= encourages trailing rather than leading whitespace on edits.
-                    if (score >= bestScore)
+                    if (score >= bestScore && this.diff_isAtomicSplit_(equality1, edit, equality2, boundaries))
                     {
                         bestScore = score;
                         bestEquality1 = equality1;
@@ -466,9 +739,73 @@ export class DiffMatchPatch
     }
 
     /**
-     * Reduce the number of edits by eliminating operationally trivial equalities.
+     * Given two strings, compute a score representing whether the internal
+     * boundary falls on logical boundaries.
+     * Scores range from 6 (best) to 0 (worst).
+     * Letters, numbers and whitespace are those of Unicode, so that accented
+     * Latin, Cyrillic, Greek, etc. words are kept whole. This is the default
+     * diffBoundaryScorer, custom scorers may fall back to it.
      *
-     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {string} one First string.
+     * @param {string} two Second string.
+     * @returns {number} The score.
+     */
+    public diff_boundaryScore(one: string, two: string): number
+    {
+        if (!one || !two)
+        {
+            // Edges are the best.
+            return 6;
+        }
+
+        // Each port of this function behaves slightly differently due to
+        // subtle differences in each language's definition of things like
+        // 'whitespace'. Since this function's purpose is largely cosmetic,
+        // the choice has been made to use each language's native features
+        // rather than force total conformity.
+        const char1 = unicode.lastCodePoint(one);
+        const char2 = unicode.firstCodePoint(two);
+        const nonAlphaNumeric1 = !unicode.isAlphaNumeric(char1);
+        const nonAlphaNumeric2 = !unicode.isAlphaNumeric(char2);
+        const whitespace1 = nonAlphaNumeric1 && char1.match(WHITESPACE_REGEX);
+        const whitespace2 = nonAlphaNumeric2 && char2.match(WHITESPACE_REGEX);
+        const lineBreak1 = whitespace1 && char1.match(LINEBREAK_REGEX);
+        const lineBreak2 = whitespace2 && char2.match(LINEBREAK_REGEX);
+        const blankLine1 = lineBreak1 && one.match(BLANKLINE_END_REGEX);
+        const blankLine2 = lineBreak2 && two.match(BLANKLINE_START_REGEX);
+
+        if (blankLine1 || blankLine2)
+        {
+            // Five points for blank lines.
+            return 5;
+        }
+        else if (lineBreak1 || lineBreak2)
+        {
+            // Four points for line breaks.
+            return 4;
+        }
+        else if (nonAlphaNumeric1 && !whitespace1 && whitespace2)
+        {
+            // Three points for end of sentences.
+            return 3;
+        }
+        else if (whitespace1 || whitespace2)
+        {
+            // Two points for whitespace.
+            return 2;
+        }
+        else if (nonAlphaNumeric1 || nonAlphaNumeric2)
+        {
+            // One point for non-alphanumeric.
+            return 1;
+        }
+        return 0;
+    }
+
+    /**
+     * Reduce the number of edits by eliminating operationally trivial equalities.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
      */
     public diff_cleanupEfficiency(diffs: Diff[]): void
     {
@@ -584,151 +921,7 @@ export class DiffMatchPatch
      */
     public diff_cleanupMerge(diffs: Diff[]): void
     {
-        // Add a dummy entry at the end.
-        diffs.push([DiffOperation.DIFF_EQUAL, ""]);
-
-        let pointer = 0;
-        let countDelete = 0;
-        let countInsert = 0;
-        let textDelete = "";
-        let textInsert = "";
-        let commonlength: number;
-        while (pointer < diffs.length)
-        {
-            switch (diffs[pointer][0])
-            {
-                case DiffOperation.DIFF_INSERT:
-                    countInsert++;
-                    textInsert += diffs[pointer][1];
-                    pointer++;
-                    break;
-                case DiffOperation.DIFF_DELETE:
-                    countDelete++;
-                    textDelete += diffs[pointer][1];
-                    pointer++;
-                    break;
-                case DiffOperation.DIFF_EQUAL:
-                    // Upon reaching an equality, check for prior redundancies.
-                    if (countDelete + countInsert > 1)
-                    {
-                        if (countDelete !== 0 && countInsert !== 0)
-                        {
-                            // Factor out any common prefixes.
-                            commonlength = this.diff_commonPrefix(textInsert, textDelete);
-                            if (commonlength !== 0)
-                            {
-                                if ((pointer - countDelete - countInsert) > 0 &&
-                                    (
-                                        diffs[pointer - countDelete - countInsert - 1][0]
-                                        === DiffOperation.DIFF_EQUAL
-                                    )
-                                )
-                                {
-                                    diffs[pointer - countDelete - countInsert - 1][1]
-                                        += textInsert.substring(0, commonlength);
-                                }
-                                else
-                                {
-                                    diffs.splice(
-                                        0,
-                                        0,
-                                        [DiffOperation.DIFF_EQUAL, textInsert.substring(0, commonlength)]
-                                    );
-                                    pointer++;
-                                }
-                                textInsert = textInsert.substring(commonlength);
-                                textDelete = textDelete.substring(commonlength);
-                            }
-                            // Factor out any common suffixes.
-                            commonlength = this.diff_commonSuffix(textInsert, textDelete);
-                            if (commonlength !== 0)
-                            {
-                                diffs[pointer][1] = textInsert.substring(textInsert.length
-                                    - commonlength) + diffs[pointer][1];
-                                textInsert = textInsert.substring(0, textInsert.length - commonlength);
-                                textDelete = textDelete.substring(0, textDelete.length - commonlength);
-                            }
-                        }
-                        // Delete the offending records and add the merged ones.
-                        pointer -= countDelete + countInsert;
-                        diffs.splice(pointer, countDelete + countInsert);
-                        if (textDelete.length)
-                        {
-                            diffs.splice(pointer, 0, [DiffOperation.DIFF_DELETE, textDelete]);
-                            pointer++;
-                        }
-                        if (textInsert.length)
-                        {
-                            diffs.splice(pointer, 0, [DiffOperation.DIFF_INSERT, textInsert]);
-                            pointer++;
-                        }
-                        pointer++;
-                    }
-                    else if (pointer !== 0 && diffs[pointer - 1][0] === DiffOperation.DIFF_EQUAL)
-                    {
-                        // Merge this equality with the previous one.
-                        diffs[pointer - 1][1] += diffs[pointer][1];
-                        diffs.splice(pointer, 1);
-                    }
-                    else
-                    {
-                        pointer++;
-                    }
-                    countInsert = 0;
-                    countDelete = 0;
-                    textDelete = "";
-                    textInsert = "";
-                    break;
-            }
-        }
-        if (diffs[diffs.length - 1][1] === "")
-        {
-            diffs.pop(); // Remove the dummy entry at the end.
-        }
-
-        // Second pass: look for single edits surrounded on both sides by equalities
-        // which can be shifted sideways to eliminate an equality.
-        // e.g: A<ins>BA</ins>C -> <ins>AB</ins>AC
-        let changes = false;
-        pointer = 1;
-        // Intentionally ignore the first and last element (don't need checking).
-        while (pointer < diffs.length - 1)
-        {
-            if (diffs[pointer - 1][0] === DiffOperation.DIFF_EQUAL &&
-                diffs[pointer + 1][0] === DiffOperation.DIFF_EQUAL)
-            {
-                // This is a single edit surrounded by equalities.
-                if (diffs[pointer][1].substring(diffs[pointer][1].length - diffs[pointer - 1][1].length)
-                    === diffs[pointer - 1][1])
-                {
-                    // Shift the edit over the previous equality.
-                    diffs[pointer][1] = diffs[pointer - 1][1]
-                        + diffs[pointer][1].substring(
-                            0,
-                            diffs[pointer][1].length - diffs[pointer - 1][1].length
-                        );
-                    diffs[pointer + 1][1] = diffs[pointer - 1][1] + diffs[pointer + 1][1];
-                    diffs.splice(pointer - 1, 1);
-                    changes = true;
-                }
-                else if (diffs[pointer][1].substring(0, diffs[pointer + 1][1].length)
-                    === diffs[pointer + 1][1])
-                {
-                    // Shift the edit over the next equality.
-                    diffs[pointer - 1][1] += diffs[pointer + 1][1];
-                    diffs[pointer][1] = diffs[pointer][1].substring(diffs[pointer + 1][1].length)
-                        + diffs[pointer + 1][1];
-                    diffs.splice(pointer + 1, 1);
-                    changes = true;
-                }
-            }
-            pointer++;
-        }
-        // If shifts were made, the diff needs reordering and another shift sweep.
-        if (changes)
-        {
-            this.diff_cleanupMerge(diffs);
-        }
+        this.diff_cleanupMerge_(diffs, false);
     }
 
     /**
@@ -778,42 +971,96 @@ export class DiffMatchPatch
     }
 
     /**
-     * Convert a diff array into a pretty HTML report.
+     * Convert a diff array into a pretty HTML report, with inline styles.
+     * See diff_toHtml to render it with classes instead.
      *
      * @param {Diff[]>} diffs Array of diff tuples.
      * @returns {string} HTML representation.
      */
     public diff_prettyHtml(diffs: Diff[]): string
     {
+        return this.diff_toHtml(diffs, {
+            insertAttributes: { style: "background:#e6ffe6;" },
+            deleteAttributes: { style: "background:#ffe6e6;" },
+            newline: "&para;<br>"
+        });
+    }
+
+    /**
+     * Convert a diff array into HTML, each tuple wrapped in an element of its
+     * own. The text is escaped.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {DiffHtmlOptions} [optOptions] Optional tags, classes, attributes,
+     * line break and rendering of each tuple.
+     * @returns {string} HTML representation.
+     * @throws {Error} If a tag or an attribute name is invalid.
+     */
+    public diff_toHtml(diffs: Diff[], optOptions?: DiffHtmlOptions): string
+    {
+        const options = typeof optOptions === "undefined" ? {} : optOptions;
+        const newline = typeof options.newline === "undefined" ? "\n" : options.newline;
         const html = [];
-        const patternAMP = /&/g;
-        const patternLT = /</g;
-        const patternGT = />/g;
         const patternPARA = /\n/g;
         for (let x = 0; x < diffs.length; x++)
         {
             const op = diffs[x][0]; // Operation (insert, delete, equal)
             const data = diffs[x][1]; // Text of change.
-            const text = data.replace(patternAMP, "&amp;")
-                .replace(patternLT, "&lt;")
-                .replace(patternGT, "&gt;")
-                .replace(patternPARA, "&para;<br>");
+            const text = this.diff_escapeHtml_(data).replace(patternPARA, newline);
             switch (op)
             {
                 case DiffOperation.DIFF_INSERT:
-                    html[x] = '<ins style="background:#e6ffe6;">' + text + "</ins>";
+                    html[x] = this.diff_wrapHtml_(
+                        text,
+                        typeof options.insertTag === "undefined" ? "ins" : options.insertTag,
+                        options.insertClass,
+                        options.insertAttributes
+                    );
                     break;
                 case DiffOperation.DIFF_DELETE:
-                    html[x] = '<del style="background:#ffe6e6;">' + text + "</del>";
+                    html[x] = this.diff_wrapHtml_(
+                        text,
+                        typeof options.deleteTag === "undefined" ? "del" : options.deleteTag,
+                        options.deleteClass,
+                        options.deleteAttributes
+                    );
                     break;
                 case DiffOperation.DIFF_EQUAL:
-                    html[x] = "<span>" + text + "</span>";
+                    html[x] = this.diff_wrapHtml_(
+                        text,
+                        typeof options.equalTag === "undefined" ? "span" : options.equalTag,
+                        options.equalClass,
+                        options.equalAttributes
+                    );
                     break;
             }
+            if (options.render)
+            {
+                html[x] = options.render(op, data, html[x]);
+            }
         }
         return html.join("");
     }
 
+    /**
+     * Convert a diff array into text for a terminal, with the deletions and
+     * insertions colored or marked.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {DiffAnsiOptions} [optOptions] Optional colors, line numbers and
+     * visible whitespace.
+     * @returns {string} Terminal representation.
+     */
+    public diff_toAnsi(diffs: Diff[], optOptions?: DiffAnsiOptions): string
+    {
+        // Pad the line numbers to the same width.
+        const width = String(math.max(
+            this.diff_text1(diffs).split("\n").length,
+            this.diff_text2(diffs).split("\n").length
+        )).length;
+        return this.diff_toAnsiLines_(diffs, typeof optOptions === "undefined" ? {} : optOptions, 1, 1, width);
+    }
+
     /**
      * Compute and return the source text (all equalities and deletions).
      *
@@ -889,87 +1136,335 @@ export class DiffMatchPatch
     }
 
     /**
-     * Crush the diff into an encoded string which describes the operations
-     * required to transform text1 into text2.
-     * E.g. =3\t-2\t+ing  -> Keep 3 chars, delete 2 chars, insert 'ing'.
-     * Operations are tab-separated. Inserted text is escaped using %xx notation.
+     * Compute the statistics of a diff: how much it deletes and inserts in
+     * characters, words and lines, in how many hunks, and how similar the
+     * texts are. The ratio is twice the number of equal characters divided by
+     * the total number of characters of both texts, like difflib's ratio().
      *
      * @param {Diff[]} diffs Array of diff tuples.
-     * @returns {string} Delta text.
+     * @returns {DiffStats} Statistics of the diff.
      */
-    public diff_toDelta(diffs: Diff[]): string
+    public diff_stats(diffs: Diff[]): DiffStats
     {
-        const text = [];
+        // The changed ranges of both texts, e.g. [[3, 5]].
+        const ranges1: number[][] = [];
+        const ranges2: number[][] = [];
+        let pointer1 = 0;
+        let pointer2 = 0;
+        let equalities = 0;
+        let hunks = 0;
+        let lastOp = DiffOperation.DIFF_EQUAL;
         for (let x = 0; x < diffs.length; x++)
         {
+            const length = diffs[x][1].length;
+            if (length === 0)
+            {
+                continue;
+            }
             switch (diffs[x][0])
             {
-                case DiffOperation.DIFF_INSERT:
-                    text[x] = "+" + encodeURI(diffs[x][1]);
-                    break;
                 case DiffOperation.DIFF_DELETE:
-                    text[x] = "-" + diffs[x][1].length;
+                    ranges1.push([pointer1, pointer1 + length]);
+                    pointer1 += length;
+                    break;
+                case DiffOperation.DIFF_INSERT:
+                    ranges2.push([pointer2, pointer2 + length]);
+                    pointer2 += length;
                     break;
                 case DiffOperation.DIFF_EQUAL:
-                    text[x] = "=" + diffs[x][1].length;
+                    equalities += length;
+                    pointer1 += length;
+                    pointer2 += length;
                     break;
             }
+            if (lastOp === DiffOperation.DIFF_EQUAL && diffs[x][0] !== DiffOperation.DIFF_EQUAL)
+            {
+                hunks++;
+            }
+            lastOp = diffs[x][0];
         }
-        return text.join("\t").replace(/%20/g, " ");
+
+        const text1 = this.diff_text1(diffs);
+        const text2 = this.diff_text2(diffs);
+        const unchangedLines = this.patch_unchangedLines_(diffs).length;
+        return {
+            charsDeleted: pointer1 - equalities,
+            charsInserted: pointer2 - equalities,
+            wordsDeleted: this.diff_countTouched_(text1, ranges1, /\S+/g),
+            wordsInserted: this.diff_countTouched_(text2, ranges2, /\S+/g),
+            linesDeleted: this.patch_splitLines_(text1).length - unchangedLines,
+            linesInserted: this.patch_splitLines_(text2).length - unchangedLines,
+            hunks,
+            ratio: this.diff_ratio_(diffs)
+        };
     }
 
     /**
-     * Given the original text1, and an encoded string which describes the
-     * operations required to transform text1 into text2, compute the full diff.
+     * Find the blocks of text which moved: a deletion and an insertion elsewhere
+     * which are at least diffMoveMinLength long and similar enough according to
+     * diffMoveThreshold. Each deletion and insertion is part of one move at
+     * most, the most similar pairs win.
+     * The diff itself is left as is, run diff_cleanupSemantic first so that
+     * moved paragraphs are whole tuples.
      *
-     * @param {string} text1 Source string for the diff.
-     * @param {string} delta Delta text.
-     * @returns {Diff[]} Array of diff tuples.
-     * @throws {Error} If invalid input.
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @returns {DiffMove[]} Array of moves, in the order of their deletions.
      */
-    public diff_fromDelta(text1: string, delta: string): Diff[]
+    public diff_moves(diffs: Diff[]): DiffMove[]
     {
-        const diffs: Diff[] = [];
-        let diffsLength = 0; // Keeping our own length var is faster in JS.
-        let pointer = 0; // Cursor in text1
-        const tokens = delta.split(/\t/g);
-        for (let x = 0; x < tokens.length; x++)
+        // Gather the edits long enough to be moves, with their offsets and the
+        // number of equalities in front of them.
+        const deletions: number[][] = []; // e.g. [index, start1, equalities]
+        const insertions: number[][] = [];
+        let start1 = 0;
+        let start2 = 0;
+        let equalities = 0;
+        for (let x = 0; x < diffs.length; x++)
         {
-            // Each token begins with a one character parameter which specifies the
-            // operation of this token (delete, insert, equality).
-            const param = tokens[x].substring(1);
-            switch (tokens[x].charAt(0))
+            const length = diffs[x][1].length;
+            switch (diffs[x][0])
             {
-                case "+":
-                    try
-                    {
-                        diffs[diffsLength++] = [DiffOperation.DIFF_INSERT, decodeURI(param)];
-                    }
-                    catch
+                case DiffOperation.DIFF_DELETE:
+                    if (length >= this.diffMoveMinLength)
                     {
-                        // Malformed URI sequence.
-                        throw new Error("Illegal escape in diff_fromDelta: " + param);
+                        deletions.push([x, start1, equalities]);
                     }
+                    start1 += length;
                     break;
-                case "-":
-                // Fall through.
-                case "=":
-                    const n = parseInt(param, 10);
-                    if (isNaN(n) || n < 0)
-                    {
-                        throw new Error("Invalid number in diff_fromDelta: " + param);
-                    }
-                    const text = text1.substring(pointer, pointer += n);
-                    if (tokens[x].charAt(0) === "=")
-                    {
-                        diffs[diffsLength++] = [DiffOperation.DIFF_EQUAL, text];
-                    }
-                    else
+                case DiffOperation.DIFF_INSERT:
+                    if (length >= this.diffMoveMinLength)
                     {
-                        diffs[diffsLength++] = [DiffOperation.DIFF_DELETE, text];
+                        insertions.push([x, start2, equalities]);
                     }
+                    start2 += length;
                     break;
-                default:
+                case DiffOperation.DIFF_EQUAL:
+                    start1 += length;
+                    start2 += length;
+                    equalities++;
+                    break;
+            }
+        }
+
+        // Score each pair of a deletion and an insertion.
+        const candidates: DiffMove[] = [];
+        for (let i = 0; i < deletions.length; i++)
+        {
+            for (let j = 0; j < insertions.length; j++)
+            {
+                if (deletions[i][2] === insertions[j][2])
+                {
+                    // Neighbours, that's a replacement rather than a move.
+                    continue;
+                }
+                const text1 = diffs[deletions[i][0]][1];
+                const text2 = diffs[insertions[j][0]][1];
+                const longest = math.max(text1.length, text2.length);
+                if (1 - math.min(text1.length, text2.length) / longest > this.diffMoveThreshold)
+                {
+                    // The lengths alone differ too much.
+                    continue;
+                }
+                const similarity = 1 - this.diff_levenshtein(this.diff_main(text1, text2, false)) / longest;
+                if (1 - similarity <= this.diffMoveThreshold)
+                {
+                    candidates.push({
+                        index1: deletions[i][0],
+                        index2: insertions[j][0],
+                        start1: deletions[i][1],
+                        start2: insertions[j][1],
+                        length1: text1.length,
+                        length2: text2.length,
+                        similarity
+                    });
+                }
+            }
+        }
+
+        // Pick the most similar pairs first.
+        candidates.sort((a, b) => b.similarity - a.similarity || a.index1 - b.index1 || a.index2 - b.index2);
+        const moved: Record<number, boolean> = {};
+        const moves: DiffMove[] = [];
+        for (let x = 0; x < candidates.length; x++)
+        {
+            if (!moved[candidates[x].index1] && !moved[candidates[x].index2])
+            {
+                moved[candidates[x].index1] = true;
+                moved[candidates[x].index2] = true;
+                moves.push(candidates[x]);
+            }
+        }
+        moves.sort((a, b) => a.index1 - b.index1);
+        return moves;
+    }
+
+    /**
+     * Lay out a diff as the rows of a side-by-side view. Lines which the diff
+     * leaves untouched are equal rows, the others are paired in order into
+     * modified rows, the rest are removed or added rows with a blank side.
+     * Run diff_cleanupSemantic first for readable changed ranges.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @returns {DiffRow[]} Array of rows.
+     */
+    public diff_toRows(diffs: Diff[]): DiffRow[]
+    {
+        const lines1 = this.patch_splitLines_(this.diff_text1(diffs));
+        const lines2 = this.patch_splitLines_(this.diff_text2(diffs));
+        const ranges1 = this.diff_lineRanges_(diffs, lines1, DiffOperation.DIFF_DELETE);
+        const ranges2 = this.diff_lineRanges_(diffs, lines2, DiffOperation.DIFF_INSERT);
+        const matches = this.patch_unchangedLines_(diffs);
+        // A sentinel past the last lines.
+        matches.push([lines1.length, lines2.length]);
+
+        const rows: DiffRow[] = [];
+        let line1 = 0;
+        let line2 = 0;
+        for (let x = 0; x < matches.length; x++)
+        {
+            while (line1 < matches[x][0] || line2 < matches[x][1])
+            {
+                const left = line1 < matches[x][0] ? this.diff_line_(lines1, ranges1, line1++) : null;
+                const right = line2 < matches[x][1] ? this.diff_line_(lines2, ranges2, line2++) : null;
+                let kind = DiffRowKind.ROW_MODIFIED;
+                if (left === null)
+                {
+                    kind = DiffRowKind.ROW_ADDED;
+                }
+                else if (right === null)
+                {
+                    kind = DiffRowKind.ROW_REMOVED;
+                }
+                rows.push({ kind, left, right });
+            }
+            if (x < matches.length - 1)
+            {
+                rows.push({
+                    kind: DiffRowKind.ROW_EQUAL,
+                    left: this.diff_line_(lines1, ranges1, line1++),
+                    right: this.diff_line_(lines2, ranges2, line2++)
+                });
+            }
+        }
+        return rows;
+    }
+
+    /**
+     * Lay out a line-level diff as the rows of a side-by-side view, see
+     * diff_toRows, highlighting only the changes within modified lines.
+     * Each old line is diffed again with the new line it is paired with,
+     * according to diffGranularity, followed by diff_cleanupSemantic.
+     *
+     * @param {Diff[]} diffs Array of diff tuples, e.g. from line mode.
+     * @returns {DiffRow[]} Array of rows.
+     */
+    public diff_intraline(diffs: Diff[]): DiffRow[]
+    {
+        const rows = this.diff_toRows(diffs);
+        for (let x = 0; x < rows.length; x++)
+        {
+            const left = rows[x].left;
+            const right = rows[x].right;
+            if (rows[x].kind !== DiffRowKind.ROW_MODIFIED || left === null || right === null)
+            {
+                continue;
+            }
+            const lineDiffs = this.diff_main(left.text, right.text, false);
+            this.diff_cleanupSemantic(lineDiffs);
+            left.ranges = this.diff_lineRanges_(lineDiffs, [left.text], DiffOperation.DIFF_DELETE)[0];
+            right.ranges = this.diff_lineRanges_(lineDiffs, [right.text], DiffOperation.DIFF_INSERT)[0];
+        }
+        return rows;
+    }
+
+    /**
+     * Crush the diff into an encoded string which describes the operations
+     * required to transform text1 into text2.
+     * E.g. =3\t-2\t+ing  -> Keep 3 chars, delete 2 chars, insert 'ing'.
+     * Operations are tab-separated. Inserted text is escaped using %xx notation.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @returns {string} Delta text.
+     */
+    public diff_toDelta(diffs: Diff[]): string
+    {
+        if (this.surrogateSafe)
+        {
+            // encodeURI throws on a lone surrogate, repair a copy of the diffs.
+            diffs = diffs.map((diff): Diff => [diff[0], diff[1]]);
+            this.diff_cleanupSurrogates_(diffs);
+        }
+        const text = [];
+        for (let x = 0; x < diffs.length; x++)
+        {
+            switch (diffs[x][0])
+            {
+                case DiffOperation.DIFF_INSERT:
+                    text[x] = "+" + encodeURI(diffs[x][1]);
+                    break;
+                case DiffOperation.DIFF_DELETE:
+                    text[x] = "-" + diffs[x][1].length;
+                    break;
+                case DiffOperation.DIFF_EQUAL:
+                    text[x] = "=" + diffs[x][1].length;
+                    break;
+            }
+        }
+        return text.join("\t").replace(/%20/g, " ");
+    }
+
+    /**
+     * Given the original text1, and an encoded string which describes the
+     * operations required to transform text1 into text2, compute the full diff.
+     *
+     * @param {string} text1 Source string for the diff.
+     * @param {string} delta Delta text.
+     * @returns {Diff[]} Array of diff tuples.
+     * @throws {Error} If invalid input.
+     */
+    public diff_fromDelta(text1: string, delta: string): Diff[]
+    {
+        const diffs: Diff[] = [];
+        let diffsLength = 0; // Keeping our own length var is faster in JS.
+        let pointer = 0; // Cursor in text1
+        const tokens = delta.split(/\t/g);
+        for (let x = 0; x < tokens.length; x++)
+        {
+            // Each token begins with a one character parameter which specifies the
+            // operation of this token (delete, insert, equality).
+            const param = tokens[x].substring(1);
+            switch (tokens[x].charAt(0))
+            {
+                case "+":
+                    try
+                    {
+                        diffs[diffsLength++] = [DiffOperation.DIFF_INSERT, decodeURI(param)];
+                    }
+                    catch
+                    {
+                        // Malformed URI sequence.
+                        throw new Error("Illegal escape in diff_fromDelta: " + param);
+                    }
+                    break;
+                case "-":
+                // Fall through.
+                case "=":
+                    const n = parseInt(param, 10);
+                    if (isNaN(n) || n < 0)
+                    {
+                        throw new Error("Invalid number in diff_fromDelta: " + param);
+                    }
+                    const text = text1.substring(pointer, pointer += n);
+                    if (tokens[x].charAt(0) === "=")
+                    {
+                        diffs[diffsLength++] = [DiffOperation.DIFF_EQUAL, text];
+                    }
+                    else
+                    {
+                        diffs[diffsLength++] = [DiffOperation.DIFF_DELETE, text];
+                    }
+                    break;
+                default:
                     // Blank tokens are ok (from a trailing \t).
                     // Anything else is an error.
                     if (tokens[x])
@@ -1036,6 +1531,167 @@ export class DiffMatchPatch
             diffs[i][1] = text.join("");
         }
     }
+
+    /**
+     * Split two texts into an array of words. Reduce the texts to a string of
+     * hashes where each Unicode character represents one word (or one boundary
+     * matched by diffWordBoundary).
+     * The result can be rehydrated with diff_charsToLines.
+     *
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @returns {{chars1: string, chars2: string, wordArray: string[]}}
+     * An object containing the encoded text1, the encoded text2 and
+     * the array of unique strings.
+     * The zeroth element of the array of unique strings is intentionally blank.
+     */
+    public diff_wordsToChars(text1: string, text2: string): { chars1: string; chars2: string; wordArray: string[] }
+    {
+        const wordArray: string[] = []; // e.g. wordArray[4] == 'Hello'
+        const wordHash: Record<string, number> = {}; // e.g. wordHash['Hello'] == 4
+
+        // '\x00' is a valid character, but various debuggers don't like it.
+        // So we'll insert a junk entry to avoid generating a null character.
+        wordArray[0] = "";
+
+        // Allocate 2/3rds of the space for text1, the rest for text2.
+        const chars1 = this.diff_tokensToCharsMunge_(this.diff_wordTokens_(text1), wordArray, wordHash, 40000);
+        const chars2 = this.diff_tokensToCharsMunge_(this.diff_wordTokens_(text2), wordArray, wordHash, 65535);
+        return { chars1, chars2, wordArray };
+    }
+
+    /**
+     * Split two texts into an array of graphemes (user-perceived characters,
+     * e.g. a letter with its combining marks or a ZWJ emoji sequence). Reduce
+     * the texts to a string of hashes where each Unicode character represents
+     * one grapheme. Past 65535 unique graphemes, the rest of a text is one
+     * grapheme; diff_main has no such limit.
+     *
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @returns {{chars1: string, chars2: string, graphemeArray: string[]}}
+     * An object containing the encoded text1, the encoded text2 and
+     * the array of unique graphemes.
+     * The zeroth element of the array of unique graphemes is intentionally blank.
+     */
+    public diff_graphemesToChars(text1: string, text2: string): { chars1: string; chars2: string; graphemeArray: string[] }
+    {
+        const graphemeArray: string[] = []; // e.g. graphemeArray[4] == 'e\u0301'
+        const graphemeHash: Record<string, number> = {}; // e.g. graphemeHash['e\u0301'] == 4
+
+        // '\x00' is a valid character, but various debuggers don't like it.
+        // So we'll insert a junk entry to avoid generating a null character.
+        graphemeArray[0] = "";
+
+        // Allocate 2/3rds of the space for text1, the rest for text2.
+        const chars1 = this.diff_tokensToCharsMunge_(unicode.graphemes(text1), graphemeArray, graphemeHash, 40000);
+        const chars2 = this.diff_tokensToCharsMunge_(unicode.graphemes(text2), graphemeArray, graphemeHash, 65535);
+        return { chars1, chars2, graphemeArray };
+    }
+
+    /**
+     * Split two texts into an array of code tokens with diffCodeTokenizer.
+     * Reduce the texts to a string of hashes where each Unicode character
+     * represents one token. Past 65535 unique tokens, the rest of a text is
+     * one token; diff_main has no such limit.
+     *
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @returns {{chars1: string, chars2: string, tokenArray: string[]}}
+     * An object containing the encoded text1, the encoded text2 and
+     * the array of unique tokens.
+     * The zeroth element of the array of unique tokens is intentionally blank.
+     * @throws {Error} If the tokens do not rebuild a text.
+     */
+    public diff_codeToChars(text1: string, text2: string): { chars1: string; chars2: string; tokenArray: string[] }
+    {
+        const tokenArray: string[] = []; // e.g. tokenArray[4] == 'getUser'
+        const tokenHash: Record<string, number> = {}; // e.g. tokenHash['getUser'] == 4
+
+        // '\x00' is a valid character, but various debuggers don't like it.
+        // So we'll insert a junk entry to avoid generating a null character.
+        tokenArray[0] = "";
+
+        // Allocate 2/3rds of the space for text1, the rest for text2.
+        const chars1 = this.diff_tokensToCharsMunge_(this.diff_codeTokens_(text1), tokenArray, tokenHash, 40000);
+        const chars2 = this.diff_tokensToCharsMunge_(this.diff_codeTokens_(text2), tokenArray, tokenHash, 65535);
+        return { chars1, chars2, tokenArray };
+    }
+
+    /**
+     * Split source code into tokens: string literals, numbers, identifiers,
+     * runs of spaces, line breaks and operators, any other character being a
+     * token of its own. This is the default diffCodeTokenizer, custom
+     * tokenizers may fall back to it.
+     *
+     * @param {string} text String to split.
+     * @returns {string[]} Tokens of the text.
+     */
+    public diff_codeTokens(text: string): string[]
+    {
+        const tokens = text.match(CODE_TOKEN_REGEX);
+        return tokens === null ? [] : tokens;
+    }
+
+    /**
+     * Find the differences between two sequences of arbitrary items, using the
+     * same algorithm and diffTimeout as diff_main.
+     *
+     * @param {T[]} seq1 Old sequence to be diffed.
+     * @param {T[]} seq2 New sequence to be diffed.
+     * @param {function(T, T): boolean} [optEquals] Optional item equality.
+     * Defaults to strict equality (===).
+     * @returns {Array<SequenceDiff<T>>} Array of sequence diff tuples.
+     */
+    public diff_sequences<T>(seq1: T[], seq2: T[], optEquals?: (a: T, b: T) => boolean): Array<SequenceDiff<T>>
+    {
+        // Check for null inputs.
+        if (seq1 == null || seq2 == null)
+        {
+            throw new Error("Null input. (diff_sequences)");
+        }
+
+        // Set a deadline by which time the diff must be complete.
+        const deadline = this.diff_deadline_();
+        const budget = this.diff_budget_();
+        if (typeof optEquals === "undefined")
+        {
+            optEquals = (a: T, b: T) => a === b;
+        }
+        const equals = optEquals;
+        const diffs = this.diff_sequenceMain_(seq1, seq2, equals, deadline, budget);
+        this.diff_sequenceCleanupMerge(diffs, equals);
+        return diffs;
+    }
+
+    /**
+     * Reorder and merge like edit sections of a sequence diff. Merge equalities.
+     * Any edit section can move as long as it doesn't cross an equality.
+     * Same as diff_cleanupMerge.
+     *
+     * @param {Array<SequenceDiff<T>>} diffs Array of sequence diff tuples.
+     * @param {function(T, T): boolean} [optEquals] Optional item equality.
+     * Defaults to strict equality (===).
+     */
+    public diff_sequenceCleanupMerge<T>(diffs: Array<SequenceDiff<T>>, optEquals?: (a: T, b: T) => boolean): void
+    {
+        if (typeof optEquals === "undefined")
+        {
+            optEquals = (a: T, b: T) => a === b;
+        }
+        const equals = optEquals;
+        this.diff_cleanupMergeParts_(diffs, {
+            empty: [],
+            concat: (one, two) => one.concat(two),
+            slice: (part, start, end) => part.slice(start, end),
+            commonPrefix: (one, two) => this.diff_sequenceCommonPrefix_(one, two, equals),
+            commonSuffix: (one, two) => this.diff_sequenceCommonSuffix_(one, two, equals),
+            startsWith: (part, start) => part.length >= start.length
+                && this.diff_sequenceCommonPrefix_(part, start, equals) === start.length,
+            endsWith: (part, end) => part.length >= end.length
+                && this.diff_sequenceCommonSuffix_(part, end, equals) === end.length
+        });
+    }
     //#endregion DIFF FUNCTIONS (public)
 
     //#region MATCH FUNCTIONS (public)
@@ -1077,6 +1733,66 @@ export class DiffMatchPatch
             return this.match_bitap_(text, pattern, loc);
         }
     }
+
+    /**
+     * Find the candidates most similar to a text, e.g. for "did you mean"
+     * suggestions, like difflib's get_close_matches(). Candidates are
+     * compared with diff_main, unless cheap upper bounds of their similarity,
+     * from their lengths and their characters, rule them out first.
+     *
+     * @param {string} text The text to look for.
+     * @param {string[]} candidates The strings to search.
+     * @param {MatchCloseOptions} [optOptions] Optional lowest similarity and
+     * largest number of matches.
+     * @returns {MatchScore[]} The best matches, most similar first.
+     */
+    public match_closeMatches(text: string, candidates: string[], optOptions?: MatchCloseOptions): MatchScore[]
+    {
+        // Check for null inputs.
+        if (text == null || candidates == null)
+        {
+            throw new Error("Null input. (match_closeMatches)");
+        }
+        const options = typeof optOptions === "undefined" ? {} : optOptions;
+        const cutoff = typeof options.cutoff === "undefined" ? 0.6 : options.cutoff;
+        const limit = typeof options.limit === "undefined" ? 3 : options.limit;
+        const counts = this.match_charCounts_(text);
+        const matches: MatchScore[] = [];
+        for (let x = 0; x < candidates.length && limit > 0; x++)
+        {
+            const candidate = candidates[x];
+            // Once there are enough matches, a candidate has to beat the worst.
+            const worst = matches.length === limit ? matches[limit - 1].ratio : -1;
+            const total = text.length + candidate.length;
+            const bound = total === 0 ? 1 : 2 * math.min(text.length, candidate.length) / total;
+            if (bound < cutoff || bound <= worst)
+            {
+                continue;
+            }
+            const quickBound = total === 0 ? 1 : 2 * this.match_commonChars_(counts, candidate) / total;
+            if (quickBound < cutoff || quickBound <= worst)
+            {
+                continue;
+            }
+            const ratio = this.diff_ratio_(this.diff_main(text, candidate, false));
+            if (ratio < cutoff || ratio <= worst)
+            {
+                continue;
+            }
+            // Insert the match in order, after any as similar.
+            let y = matches.length;
+            while (y > 0 && matches[y - 1].ratio < ratio)
+            {
+                y--;
+            }
+            matches.splice(y, 0, { text: candidate, index: x, ratio });
+            if (matches.length > limit)
+            {
+                matches.pop();
+            }
+        }
+        return matches;
+    }
     //#endregion MATCH FUNCTIONS (public)
 
     //#region PATCH FUNCTIONS (public)
@@ -1162,6 +1878,11 @@ export class DiffMatchPatch
         {
             return []; // Get rid of the null case.
         }
+        if (this.surrogateSafe)
+        {
+            diffs = diffs.map((diff): Diff => [diff[0], diff[1]]);
+            this.diff_cleanupSurrogates_(diffs);
+        }
         const patches = [];
         let patch = new PatchObject();
         let patchDiffLength = 0; // Keeping our own length var is faster in JS.
@@ -1545,10 +2266,14 @@ export class DiffMatchPatch
                     else
                     {
                         // Deletion or equality. Only take as much as we can stomach.
-                        diffText = diffText.substring(
-                            0,
-                            patchSize - patch.length1 - this.patchMargin
-                        );
+                        const size = patchSize - patch.length1 - this.patchMargin;
+                        // Never cut through a pair or a token, take more when nothing would be left.
+                        let cut = this.diff_alignIndex_(diffText, size, false);
+                        if (!cut)
+                        {
+                            cut = this.diff_alignIndex_(diffText, size, true);
+                        }
+                        diffText = diffText.substring(0, cut);
                         patch.length1 += diffText.length;
                         start1 += diffText.length;
                         if (diffType === DiffOperation.DIFF_EQUAL)
@@ -1573,9 +2298,12 @@ export class DiffMatchPatch
                 }
                 // Compute the head context for the next patch.
                 precontext = this.diff_text2(patch.diffs);
-                precontext = precontext.substring(precontext.length - this.patchMargin);
+                precontext = precontext.substring(
+                    this.diff_alignIndex_(precontext, precontext.length - this.patchMargin, false)
+                );
                 // Append the end context for this patch.
-                const postcontext = this.diff_text1(bigpatch.diffs).substring(0, this.patchMargin);
+                const text1 = this.diff_text1(bigpatch.diffs);
+                const postcontext = text1.substring(0, this.diff_alignIndex_(text1, this.patchMargin, true));
                 if (postcontext !== "")
                 {
                     patch.length1 += postcontext.length;
@@ -1615,23 +2343,98 @@ export class DiffMatchPatch
     }
 
     /**
-     * Parse a textual representation of patches and return a list of Patch objects.
+     * Convert a list of patches into text for a terminal, see diff_toAnsi.
+     * Each patch is its header followed by its diff.
      *
-     * @param {string} textline Text representation of patches.
-     * @returns {PatchObject[]} Array of Patch objects.
-     * @throws {Error} If invalid input.
+     * @param {PatchObject[]} patches Array of Patch objects.
+     * @param {DiffAnsiOptions} [optOptions] Optional colors, line numbers and
+     * visible whitespace.
+     * @param {string} [optText] Optional text the patches are meant for, to
+     * number their lines. Otherwise the numbers are estimated from the average
+     * length of the lines of the patches.
+     * @returns {string} Terminal representation.
      */
-    public patch_fromText(textline: string): PatchObject[]
+    public patch_toAnsi(patches: PatchObject[], optOptions?: DiffAnsiOptions, optText?: string): string
     {
-        const patches: PatchObject[] = [];
-        if (!textline)
+        const options = typeof optOptions === "undefined" ? {} : optOptions;
+        const color = typeof options.color === "undefined" ? true : options.color;
+        let lineLength = 0;
+        if (typeof optText === "undefined")
         {
-            return patches;
+            let lineCount = 0;
+            for (let x = 0; x < patches.length; x++)
+            {
+                const text1 = this.diff_text1(patches[x].diffs);
+                lineLength += text1.length;
+                lineCount += text1.split("\n").length - 1;
+            }
+            lineLength = lineCount === 0 ? 0 : lineLength / lineCount;
         }
-        const text = textline.split("\n");
-        let textPointer = 0;
-        const patchHeader = /^@@ -(\d+),?(\d*) \+(\d+),?(\d*) @@$/;
-        while (textPointer < text.length)
+        // Characters and lines added by the previous patches, start2 is where
+        // a patch goes once they are applied.
+        let delta = 0;
+        let lineDelta = 0;
+        const lines1: number[] = [];
+        const lines2: number[] = [];
+        for (let x = 0; x < patches.length; x++)
+        {
+            const patch = patches[x];
+            const text1 = this.diff_text1(patch.diffs);
+            const text2 = this.diff_text2(patch.diffs);
+            if (typeof optText === "undefined")
+            {
+                lines1[x] = lineLength === 0 ? 1 : Math.floor((patch.start2 - delta) / lineLength) + 1;
+            }
+            else
+            {
+                lines1[x] = optText.substring(0, patch.start2 - delta).split("\n").length;
+            }
+            lines2[x] = lines1[x] + lineDelta;
+            delta += text2.length - text1.length;
+            lineDelta += text2.split("\n").length - text1.split("\n").length;
+        }
+        // Pad the line numbers of all patches to the same width.
+        let width = 1;
+        if (patches.length)
+        {
+            const last = patches[patches.length - 1].diffs;
+            width = String(math.max(
+                lines1[patches.length - 1] + this.diff_text1(last).split("\n").length - 1,
+                lines2[patches.length - 1] + this.diff_text2(last).split("\n").length - 1
+            )).length;
+        }
+        const text = [];
+        for (let x = 0; x < patches.length; x++)
+        {
+            const header = patches[x].toString().split("\n")[0];
+            let body = this.diff_toAnsiLines_(patches[x].diffs, options, lines1[x], lines2[x], width);
+            if (body.charAt(body.length - 1) !== "\n")
+            {
+                body += "\n";
+            }
+            text[x] = (color ? "\x1b[36m" + header + "\x1b[0m" : header) + "\n" + body;
+        }
+        return text.join("");
+    }
+
+    /**
+     * Parse a textual representation of patches and return a list of Patch objects.
+     *
+     * @param {string} textline Text representation of patches.
+     * @returns {PatchObject[]} Array of Patch objects.
+     * @throws {Error} If invalid input.
+     */
+    public patch_fromText(textline: string): PatchObject[]
+    {
+        const patches: PatchObject[] = [];
+        if (!textline)
+        {
+            return patches;
+        }
+        const text = textline.split("\n");
+        let textPointer = 0;
+        const patchHeader = /^@@ -(\d+),?(\d*) \+(\d+),?(\d*) @@$/;
+        while (textPointer < text.length)
         {
             const m = text[textPointer].match(patchHeader);
             if (!m)
@@ -1723,671 +2526,3701 @@ export class DiffMatchPatch
         }
         return patches;
     }
-    //#endregion PATCH FUNCTIONS (public)
 
-    //#region DIFF FUNCTIONS (private)
     /**
-     * Find the differences between two texts. Assumes that the texts do not
-     * have any common prefix or suffix.
+     * Render a diff as a unified diff of lines, as produced by `diff -u` and
+     * read by `patch` and `git apply`. Lines that the diff leaves untouched
+     * are context, all the others are changed as a whole.
      *
-     * @private
-     * @param {string} text1 Old string to be diffed.
-     * @param {string} text2 New string to be diffed.
-     * @param {boolean} checklines Speedup flag. If false, then don't run a
-     * line-level diff first to identify the changed areas.
-     * If true, then run a faster, slightly less optimal diff.
-     * @param {number} deadline Time when the diff should be complete by.
-     * @returns {Diff[]} Array of diff tuples.
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {PatchUnifiedOptions} [optOptions] Optional file names and number
+     * of context lines.
+     * @returns {string} The unified diff, empty if the texts are equal.
      */
-    private diff_compute_(text1: string, text2: string, checklines: boolean, deadline: number): Diff[]
+    public patch_toUnified(diffs: Diff[], optOptions?: PatchUnifiedOptions): string
     {
-        let diffs: Diff[];
-
-        if (!text1)
-        {
-            // Just add some text (speedup).
-            return [[DiffOperation.DIFF_INSERT, text2]];
-        }
+        const options = typeof optOptions === "undefined" ? {} : optOptions;
+        const context = typeof options.context === "undefined" ? 3 : options.context;
+        const lines1 = this.patch_splitLines_(this.diff_text1(diffs));
+        const lines2 = this.patch_splitLines_(this.diff_text2(diffs));
+        const matches = this.patch_unchangedLines_(diffs);
+        // A sentinel past the last lines.
+        matches.push([lines1.length, lines2.length]);
 
-        if (!text2)
-        {
-            // Just delete some text (speedup).
-            return [[DiffOperation.DIFF_DELETE, text1]];
-        }
-
-        const longtext = text1.length > text2.length ? text1 : text2;
-        const shorttext = text1.length > text2.length ? text2 : text1;
-        const i = longtext.indexOf(shorttext);
-        if (i !== -1)
+        // Lay out the lines as context and edits, e.g. [" ", 4, 5] or ["-", 6].
+        const ops: Array<[string, number, number]> = [];
+        let line1 = 0;
+        let line2 = 0;
+        for (let x = 0; x < matches.length; x++)
         {
-            // Shorter text is inside the longer text (speedup).
-            diffs = [
-                [DiffOperation.DIFF_INSERT, longtext.substring(0, i)],
-                [DiffOperation.DIFF_EQUAL, shorttext],
-                [DiffOperation.DIFF_INSERT, longtext.substring(i + shorttext.length)]
-            ];
-            // Swap insertions for deletions if diff is reversed.
-            if (text1.length > text2.length)
+            for (; line1 < matches[x][0]; line1++)
             {
-                diffs[0][0] = DiffOperation.DIFF_DELETE;
-                diffs[2][0] = DiffOperation.DIFF_DELETE;
+                ops.push(["-", line1, line2]);
+            }
+            for (; line2 < matches[x][1]; line2++)
+            {
+                ops.push(["+", line1, line2]);
+            }
+            if (x < matches.length - 1)
+            {
+                ops.push([" ", line1++, line2++]);
             }
-            return diffs;
-        }
-
-        if (shorttext.length === 1)
-        {
-            // Single character string.
-            // After the previous speedup, the character can't be an equality.
-            return [
-                [DiffOperation.DIFF_DELETE, text1],
-                [DiffOperation.DIFF_INSERT, text2]
-            ];
         }
 
-        // Check to see if the problem can be split in two.
-        const hm = this.diff_halfMatch_(text1, text2);
-        if (hm)
+        const text: string[] = [];
+        let x = 0;
+        while (x < ops.length)
         {
-            // A half-match was found, sort out the return data.
-            const text1A = hm[0];
-            const text1B = hm[1];
-            const text2A = hm[2];
-            const text2B = hm[3];
-            const midCommon = hm[4];
-            // Send both pairs off for separate processing.
-            const diffsA = this.diff_main(text1A, text2A, checklines, deadline);
-            const diffsB = this.diff_main(text1B, text2B, checklines, deadline);
-            // Merge the results.
-            return diffsA.concat([[DiffOperation.DIFF_EQUAL, midCommon]], diffsB);
-        }
+            // Find the next edit, and the edits close enough to share its hunk.
+            while (x < ops.length && ops[x][0] === " ")
+            {
+                x++;
+            }
+            if (x === ops.length)
+            {
+                break;
+            }
+            const start = math.max(0, x - context);
+            let end = x;
+            let unchanged = 0;
+            while (end < ops.length && unchanged <= 2 * context)
+            {
+                unchanged = ops[end][0] === " " ? unchanged + 1 : 0;
+                end++;
+            }
+            end = math.min(ops.length, end - unchanged + context);
 
-        if (checklines && text1.length > 100 && text2.length > 100)
-        {
-            return this.diff_lineMode_(text1, text2, deadline);
+            let length1 = 0;
+            let length2 = 0;
+            const body: string[] = [];
+            for (let i = start; i < end; i++)
+            {
+                const op = ops[i];
+                const line = op[0] === "+" ? lines2[op[2]] : lines1[op[1]];
+                length1 += op[0] === "+" ? 0 : 1;
+                length2 += op[0] === "-" ? 0 : 1;
+                if (line.charAt(line.length - 1) === "\n")
+                {
+                    body.push(op[0] + line);
+                }
+                else
+                {
+                    body.push(op[0] + line + "\n\\ No newline at end of file\n");
+                }
+            }
+            if (text.length === 0)
+            {
+                text.push(
+                    "--- " + (typeof options.fileName1 === "undefined" ? "a" : options.fileName1) + "\n",
+                    "+++ " + (typeof options.fileName2 === "undefined" ? "b" : options.fileName2) + "\n"
+                );
+            }
+            text.push(
+                "@@ -" + this.patch_unifiedRange_(ops[start][1], length1)
+                + " +" + this.patch_unifiedRange_(ops[start][2], length2) + " @@\n"
+            );
+            text.push(body.join(""));
+            x = end;
         }
-
-        return this.diff_bisect_(text1, text2, deadline);
+        return text.join("");
     }
 
     /**
-     * Do a quick line-level diff on both strings, then re-diff the parts for
-     * greater accuracy.
-     * This speedup can produce non-minimal diffs.
+     * Compute a unified diff of the lines of two texts, see patch_toUnified.
+     * The lines are aligned with diffAlgorithm.
      *
-     * @private
      * @param {string} text1 Old string to be diffed.
      * @param {string} text2 New string to be diffed.
-     * @param {number} deadline Time when the diff should be complete by.
-     * @returns {Diff[]} Array of diff tuples.
+     * @param {PatchUnifiedOptions} [optOptions] Optional file names and number
+     * of context lines.
+     * @returns {string} The unified diff, empty if the texts are equal.
      */
-    private diff_lineMode_(text1: string, text2: string, deadline: number): Diff[]
+    public patch_makeUnified(text1: string, text2: string, optOptions?: PatchUnifiedOptions): string
     {
-        // Scan the text on a line-by-line basis first.
-        const a = this.diff_linesToChars(text1, text2);
-        text1 = a.chars1;
-        text2 = a.chars2;
-        const linearray = a.lineArray;
-
-        const diffs = this.diff_main(text1, text2, false, deadline);
-
-        // Convert the diff back to original text.
-        this.diff_charsToLines(diffs, linearray);
-        // Eliminate freak matches (e.g. blank lines)
-        this.diff_cleanupSemantic(diffs);
-
-        // Re-diff any replacement blocks, this time character-by-character.
-        // Add a dummy entry at the end.
-        diffs.push([DiffOperation.DIFF_EQUAL, ""]);
-        let pointer = 0;
-        let countDelete = 0;
-        let countInsert = 0;
-        let textDelete = "";
-        let textInsert = "";
-        while (pointer < diffs.length)
+        // Check for null inputs.
+        if (text1 == null || text2 == null)
         {
-            switch (diffs[pointer][0])
-            {
-                case DiffOperation.DIFF_INSERT:
-                    countInsert++;
-                    textInsert += diffs[pointer][1];
-                    break;
-                case DiffOperation.DIFF_DELETE:
-                    countDelete++;
-                    textDelete += diffs[pointer][1];
-                    break;
-                case DiffOperation.DIFF_EQUAL:
-                    // Upon reaching an equality, check for prior redundancies.
-                    if (countDelete >= 1 && countInsert >= 1)
-                    {
-                        // Delete the offending records and add the merged ones.
-                        diffs.splice(pointer - countDelete - countInsert, countDelete + countInsert);
-                        pointer = pointer - countDelete - countInsert;
-                        const subDiff = this.diff_main(textDelete, textInsert, false, deadline);
-                        for (let j = subDiff.length - 1; j >= 0; j--)
-                        {
-                            diffs.splice(pointer, 0, subDiff[j]);
-                        }
-                        pointer = pointer + subDiff.length;
-                    }
-                    countInsert = 0;
-                    countDelete = 0;
-                    textDelete = "";
-                    textInsert = "";
-                    break;
-            }
-            pointer++;
+            throw new Error("Null input. (patch_makeUnified)");
         }
-        // Remove the dummy entry at the end.
-        diffs.pop();
-
-        return diffs;
+        const diffs = this.diff_run_(this.diff_linesSteps_(text1, text2, this.diff_deadline_(), this.diff_budget_()));
+        return this.patch_toUnified(diffs, optOptions);
     }
 
     /**
-     * Find the 'middle snake' of a diff, split the problem in two
-     * and return the recursively constructed diff.
-     * See Myers 1986 paper: An O(ND) Difference Algorithm and Its Variations.
+     * Parse a standard unified diff, such as the output of `diff -u` or
+     * `git diff`, into a list of Patch objects for patch_apply. Headers and
+     * git extended headers are skipped, the hunks should all be of one file.
      *
-     * @private
-     * @param {string} text1 Old string to be diffed.
-     * @param {string} text2 New string to be diffed.
-     * @param {number} deadline Time at which to bail if not yet complete.
-     * @returns {Diff[]} Array of diff tuples.
+     * @param {string} textline Text of the unified diff.
+     * @param {string} [optText] Optional text the patch is meant for, to locate
+     * the hunks by line. Otherwise their locations are estimated from the
+     * average length of their lines.
+     * @returns {PatchObject[]} Array of Patch objects.
+     * @throws {Error} If invalid input.
      */
-    private diff_bisect_(text1: string, text2: string, deadline: number): Diff[]
+    public patch_fromUnified(textline: string, optText?: string): PatchObject[]
     {
-        // Cache the text lengths to prevent multiple calls.
-        const text1Length = text1.length;
-        const text2Length = text2.length;
-        const maxD = Math.ceil((text1Length + text2Length) / 2);
-        const vOffset = maxD;
-        const vLength = 2 * maxD;
-        const v1 = new Array(vLength);
-        const v2 = new Array(vLength);
-        // Setting all elements to -1 is faster in Chrome & Firefox than mixing
-        // integers and undefined.
-        for (let x = 0; x < vLength; x++)
+        const patches: PatchObject[] = [];
+        if (!textline)
         {
-            v1[x] = -1;
-            v2[x] = -1;
+            return patches;
         }
-        v1[vOffset + 1] = 0;
-        v2[vOffset + 1] = 0;
-        const delta = text1Length - text2Length;
-        // If the total number of characters is odd, then the front path will collide
-        // with the reverse path.
-        const front = (delta % 2 !== 0);
-        // Offsets for start and end of k loop.
-        // Prevents mapping of space beyond the grid.
-        let k1Start = 0;
-        let k1End = 0;
-        let k2Start = 0;
-        let k2End = 0;
-        for (let d = 0; d < maxD; d++)
+        const text = textline.split("\n");
+        if (text[text.length - 1] === "")
+        {
+            // The line break ending the last line.
+            text.pop();
+        }
+        const hunkHeader = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+        // The first line of text1 of each hunk, 0-based.
+        const hunkLines: number[] = [];
+        let textPointer = 0;
+        while (textPointer < text.length)
         {
-            // Bail out if deadline is reached.
-            if (Date.now() > deadline)
+            const header = text[textPointer++];
+            if (header.substring(0, 2) !== "@@")
             {
-                break;
+                if (patches.length !== 0
+                    && (header.substring(0, 11) === "diff --git " || header.substring(0, 4) === "--- "))
+                {
+                    throw new Error("Invalid patch string, more than one file: " + header);
+                }
+                // Headers, git extended headers or commit messages.
+                continue;
+            }
+            const m = header.match(hunkHeader);
+            if (!m)
+            {
+                throw new Error("Invalid patch string: " + header);
             }
+            let count1 = m[2] === undefined ? 1 : parseInt(m[2], 10);
+            let count2 = m[4] === undefined ? 1 : parseInt(m[4], 10);
+            // An empty range refers to the line before the hunk.
+            hunkLines.push(parseInt(m[1], 10) - (count1 === 0 ? 0 : 1));
 
-            // Walk the front path one step.
-            for (let k1 = -d + k1Start; k1 <= d - k1End; k1 += 2)
+            const patch = new PatchObject();
+            patches.push(patch);
+            while (count1 > 0 || count2 > 0 || (textPointer < text.length && text[textPointer].charAt(0) === "\\"))
             {
-                const k1Offset = vOffset + k1;
-                let x1;
-                if (k1 === -d || (k1 !== d && v1[k1Offset - 1] < v1[k1Offset + 1]))
+                if (textPointer === text.length)
                 {
-                    x1 = v1[k1Offset + 1];
+                    throw new Error("Invalid patch string, truncated hunk: " + header);
                 }
-                else
+                const sign = text[textPointer].charAt(0);
+                const line = text[textPointer].substring(1) + "\n";
+                let op: DiffOperation;
+                if (sign === "\\")
                 {
-                    x1 = v1[k1Offset - 1] + 1;
+                    // No newline at end of file.
+                    if (patch.diffs.length !== 0)
+                    {
+                        const lastDiff = patch.diffs[patch.diffs.length - 1];
+                        lastDiff[1] = lastDiff[1].substring(0, lastDiff[1].length - 1);
+                    }
+                    textPointer++;
+                    continue;
                 }
-
-                let y1 = x1 - k1;
-                while (
-                    x1 < text1Length
-                    && y1 < text2Length
-                    && text1.charAt(x1) === text2.charAt(y1)
-                )
+                else if (sign === "-" && count1 > 0)
                 {
-                    x1++;
-                    y1++;
+                    op = DiffOperation.DIFF_DELETE;
+                    count1--;
                 }
-                v1[k1Offset] = x1;
-                if (x1 > text1Length)
+                else if (sign === "+" && count2 > 0)
                 {
-                    // Ran off the right of the graph.
-                    k1End += 2;
+                    op = DiffOperation.DIFF_INSERT;
+                    count2--;
                 }
-                else if (y1 > text2Length)
+                else if ((sign === " " || sign === "") && count1 > 0 && count2 > 0)
                 {
-                    // Ran off the bottom of the graph.
-                    k1Start += 2;
+                    // Editors may strip the space of an empty context line.
+                    op = DiffOperation.DIFF_EQUAL;
+                    count1--;
+                    count2--;
                 }
-                else if (front)
+                else
                 {
-                    const k2Offset = vOffset + delta - k1;
-                    if (k2Offset >= 0 && k2Offset < vLength && v2[k2Offset] !== -1)
-                    {
-                        // Mirror x2 onto top-left coordinate system.
-                        const x2 = text1Length - v2[k2Offset];
-                        if (x1 >= x2)
-                        {
-                            // Overlap detected.
-                            return this.diff_bisectSplit_(text1, text2, x1, y1, deadline);
-                        }
-                    }
+                    throw new Error('Invalid patch mode "' + sign + '" in: ' + text[textPointer]);
                 }
+                // Each line is a tuple of its own, until the hunk is complete.
+                patch.diffs.push([op, line]);
+                textPointer++;
             }
+            this.diff_cleanupMerge(patch.diffs);
+            patch.length1 = this.diff_text1(patch.diffs).length;
+            patch.length2 = this.diff_text2(patch.diffs).length;
+        }
 
-            // Walk the reverse path one step.
-            for (let k2 = -d + k2Start; k2 <= d - k2End; k2 += 2)
+        // Locate the hunks by their lines.
+        const lineStarts: number[] = [0];
+        if (typeof optText !== "undefined")
+        {
+            const lines = this.patch_splitLines_(optText);
+            for (let x = 0; x < lines.length; x++)
             {
-                const k2Offset = vOffset + k2;
-                let x2;
-                if (k2 === -d || (k2 !== d && v2[k2Offset - 1] < v2[k2Offset + 1]))
-                {
-                    x2 = v2[k2Offset + 1];
-                }
-                else
-                {
-                    x2 = v2[k2Offset - 1] + 1;
-                }
-                let y2 = x2 - k2;
-                while (
-                    x2 < text1Length
-                    && y2 < text2Length
-                    && text1.charAt(text1Length - x2 - 1) === text2.charAt(text2Length - y2 - 1)
-                )
-                {
-                    x2++;
-                    y2++;
-                }
-                v2[k2Offset] = x2;
-                if (x2 > text1Length)
-                {
-                    // Ran off the left of the graph.
-                    k2End += 2;
-                }
-                else if (y2 > text2Length)
-                {
-                    // Ran off the top of the graph.
-                    k2Start += 2;
-                }
-                else if (!front)
-                {
-                    const k1Offset = vOffset + delta - k2;
-                    if (k1Offset >= 0 && k1Offset < vLength && v1[k1Offset] !== -1)
-                    {
-                        const x1 = v1[k1Offset];
-                        const y1 = vOffset + x1 - k1Offset;
-                        // Mirror x2 onto top-left coordinate system.
-                        x2 = text1Length - x2;
-                        if (x1 >= x2)
-                        {
-                            // Overlap detected.
-                            return this.diff_bisectSplit_(text1, text2, x1, y1, deadline);
-                        }
-                    }
-                }
+                lineStarts.push(lineStarts[x] + lines[x].length);
             }
         }
-        // Diff took too long and hit the deadline or
-        // number of diffs equals number of characters, no commonality at all.
-        return [
+        let lineLength = 0;
+        let lineCount = 0;
+        for (let x = 0; x < patches.length; x++)
+        {
+            const text1 = this.diff_text1(patches[x].diffs);
+            lineLength += text1.length;
+            lineCount += text1.split("\n").length - 1;
+        }
+        lineLength = lineCount === 0 ? 0 : lineLength / lineCount;
+        let delta = 0;
+        for (let x = 0; x < patches.length; x++)
+        {
+            const patch = patches[x];
+            if (typeof optText === "undefined")
+            {
+                patch.start1 = Math.round(hunkLines[x] * lineLength);
+            }
+            else
+            {
+                patch.start1 = lineStarts[math.min(hunkLines[x], lineStarts.length - 1)];
+            }
+            patch.start2 = patch.start1 + delta;
+            delta += patch.length2 - patch.length1;
+        }
+        return patches;
+    }
+    //#endregion PATCH FUNCTIONS (public)
+
+    //#region MERGE FUNCTIONS (public)
+    /**
+     * Merge two texts which were edited concurrently from the same base.
+     * Both are aligned against the base with diff_main and diff_cleanupSemantic
+     * (so that conflicts don't split words), edits which neither overlap nor
+     * touch are merged, the others conflict unless both sides made the same
+     * edit.
+     *
+     * @param {string} base Common ancestor of both texts.
+     * @param {string} ours Our edited text.
+     * @param {string} theirs Their edited text.
+     * @returns {MergeResult} The merged regions, and whether any of them conflicts.
+     */
+    public merge3(base: string, ours: string, theirs: string): MergeResult
+    {
+        // Check for null inputs.
+        if (base == null || ours == null || theirs == null)
+        {
+            throw new Error("Null input. (merge3)");
+        }
+
+        const diffsOurs = this.diff_main(base, ours);
+        this.diff_cleanupSemantic(diffsOurs);
+        const diffsTheirs = this.diff_main(base, theirs);
+        this.diff_cleanupSemantic(diffsTheirs);
+        const hunks = this.merge_hunks_(diffsOurs, 0).concat(this.merge_hunks_(diffsTheirs, 1));
+        hunks.sort((a, b) => a.start - b.start || a.side - b.side);
+
+        const result: MergeResult = { conflict: false, regions: [] };
+        let pointer = 0;
+        let x = 0;
+        while (x < hunks.length)
+        {
+            // Gather the hunks which overlap or touch each other.
+            const start = hunks[x].start;
+            let end = hunks[x].end;
+            const group = [hunks[x++]];
+            while (x < hunks.length && hunks[x].start <= end)
+            {
+                end = math.max(end, hunks[x].end);
+                group.push(hunks[x++]);
+            }
+
+            const unchanged = base.substring(pointer, start);
+            this.merge_pushRegion_(result, false, unchanged, unchanged, unchanged, unchanged);
+            const baseText = base.substring(start, end);
+            const oursText = this.merge_apply_(base, group, 0, start, end);
+            const theirsText = this.merge_apply_(base, group, 1, start, end);
+            if (oursText === theirsText || theirsText === baseText)
+            {
+                // Only ours changed, or both the same way.
+                this.merge_pushRegion_(result, false, oursText, baseText, oursText, theirsText);
+            }
+            else if (oursText === baseText)
+            {
+                this.merge_pushRegion_(result, false, theirsText, baseText, oursText, theirsText);
+            }
+            else
+            {
+                this.merge_pushRegion_(result, true, "", baseText, oursText, theirsText);
+            }
+            pointer = end;
+        }
+        const rest = base.substring(pointer);
+        this.merge_pushRegion_(result, false, rest, rest, rest, rest);
+        return result;
+    }
+
+    /**
+     * Resolve the conflicts of a merge.
+     *
+     * @param {MergeResult} result The merge, see merge3.
+     * @param {MergeStrategy} strategy Which side of each conflict to keep.
+     * @returns {string} The merged text.
+     */
+    public merge_resolve(result: MergeResult, strategy: MergeStrategy): string
+    {
+        // The union is of whole lines.
+        const regions = strategy === MergeStrategy.MERGE_UNION
+            ? this.merge_toLines_(result.regions)
+            : result.regions;
+        const text: string[] = [];
+        for (let x = 0; x < regions.length; x++)
+        {
+            const region = regions[x];
+            if (!region.conflict)
+            {
+                text.push(region.text);
+                continue;
+            }
+            switch (strategy)
+            {
+                case MergeStrategy.MERGE_OURS:
+                    text.push(region.ours);
+                    break;
+                case MergeStrategy.MERGE_THEIRS:
+                    text.push(region.theirs);
+                    break;
+                case MergeStrategy.MERGE_UNION:
+                    text.push(this.merge_endLine_(region.ours), region.theirs);
+                    break;
+                case MergeStrategy.MERGE_LONGER:
+                    text.push(region.ours.length >= region.theirs.length ? region.ours : region.theirs);
+                    break;
+            }
+        }
+        return text.join("");
+    }
+
+    /**
+     * Render a merge with git-style conflict markers. Conflicts are widened to
+     * whole lines, so that each marker starts a line of its own (a last line
+     * without a line break gets one).
+     *
+     * @param {MergeResult} result The merge, see merge3.
+     * @param {boolean} [optBase] Optional flag to add the base of each conflict
+     * (as git's diff3 conflict style does).
+     * @returns {string} The merged text, with conflict markers.
+     */
+    public merge_toMarkers(result: MergeResult, optBase?: boolean): string
+    {
+        const regions = this.merge_toLines_(result.regions);
+        const text: string[] = [];
+        for (let x = 0; x < regions.length; x++)
+        {
+            const region = regions[x];
+            if (!region.conflict)
+            {
+                text.push(region.text);
+                continue;
+            }
+            text.push("<<<<<<< ours\n", this.merge_endLine_(region.ours));
+            if (optBase)
+            {
+                text.push("||||||| base\n", this.merge_endLine_(region.base));
+            }
+            text.push("=======\n", this.merge_endLine_(region.theirs), ">>>>>>> theirs\n");
+        }
+        return text.join("");
+    }
+
+    /**
+     * Parse a text with git-style conflict markers back into a merge.
+     * Without a base section (see merge_toMarkers), the base of a conflict is
+     * empty.
+     *
+     * @param {string} text The merged text, with conflict markers.
+     * @returns {MergeResult} The merge.
+     * @throws {!Error} If a conflict is not terminated.
+     */
+    public merge_fromMarkers(text: string): MergeResult
+    {
+        const result: MergeResult = { conflict: false, regions: [] };
+        const conflict: MergeRegion = { conflict: true, text: "", base: "", ours: "", theirs: "" };
+        let section: "base" | "ours" | "theirs" | null = null;
+        let lineStart = 0;
+        while (lineStart < text.length)
+        {
+            const lineEnd = text.indexOf("\n", lineStart);
+            const line = text.substring(lineStart, lineEnd === -1 ? text.length : lineEnd + 1);
+            lineStart += line.length;
+
+            const marker = CONFLICT_MARKER_REGEX.exec(line);
+            const sign = marker ? marker[1].charAt(0) : "";
+            if (sign === "<" && section === null)
+            {
+                conflict.base = "";
+                conflict.ours = "";
+                conflict.theirs = "";
+                section = "ours";
+            }
+            else if (sign === "|" && section === "ours")
+            {
+                section = "base";
+            }
+            else if (sign === "=" && (section === "ours" || section === "base"))
+            {
+                section = "theirs";
+            }
+            else if (sign === ">" && section === "theirs")
+            {
+                this.merge_pushRegion_(result, true, "", conflict.base, conflict.ours, conflict.theirs);
+                section = null;
+            }
+            else if (section === null)
+            {
+                this.merge_pushRegion_(result, false, line, line, line, line);
+            }
+            else
+            {
+                conflict[section] += line;
+            }
+        }
+        if (section !== null)
+        {
+            throw new Error("Unterminated conflict. (merge_fromMarkers)");
+        }
+        return result;
+    }
+    //#endregion MERGE FUNCTIONS (public)
+
+    //#region DIFF FUNCTIONS (private)
+    /**
+     * Find the differences between two texts, see diff_main. Progress is
+     * yielded between the steps for diff_mainAsync, diff_run_ runs them all.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {boolean} [optChecklines] Optional speedup flag, see diff_main.
+     * @param {number} [optDeadline] Optional time when the diff should be complete by.
+     * @param {DiffBudget} [optBudget] Optional steps left, shared by the whole diff.
+     * @returns {Generator<DiffProgress, Diff[], void>} Steps of the diff, returning
+     * the array of diff tuples.
+     */
+    private *diff_mainSteps_(
+        text1: string,
+        text2: string,
+        optChecklines?: boolean,
+        optDeadline?: number,
+        optBudget?: DiffBudget
+    ): Generator<DiffProgress, Diff[], void>
+    {
+        // Only the outermost call honors diffGranularity, recursive calls
+        // always receive a deadline and work on the (encoded) characters.
+        const outermost = typeof optDeadline === "undefined";
+
+        // Set a deadline by which time the diff must be complete.
+        if (typeof optDeadline === "undefined")
+        {
+            optDeadline = this.diff_deadline_();
+        }
+        const deadline = optDeadline;
+
+        // The steps are shared by all recursive calls.
+        if (typeof optBudget === "undefined")
+        {
+            optBudget = this.diff_budget_();
+        }
+        const budget = optBudget;
+
+        // Check for null inputs.
+        if (text1 == null || text2 == null)
+        {
+            throw new Error("Null input. (diff_main)");
+        }
+
+        // Check for equality (speedup).
+        if (text1 === text2)
+        {
+            if (text1)
+            {
+                return [[DiffOperation.DIFF_EQUAL, text1]];
+            }
+            return [];
+        }
+
+        if (outermost && (this.diffIgnoreCase || this.diffIgnoreWhitespace || this.diffIgnoreLineEndings))
+        {
+            const view1 = this.diff_normalize_(text1);
+            const view2 = this.diff_normalize_(text2);
+            if (view1.text !== text1 || view2.text !== text2)
+            {
+                // Diff the normalized texts instead, then map the diff back
+                // onto the original ones.
+                const mark = budget.approximated.length;
+                const diffs = yield* this.diff_mainSteps_(view1.text, view2.text, optChecklines, undefined, budget);
+                this.diff_viewToRegions_(budget, mark, view1.starts, view2.starts);
+                return this.diff_denormalize_(diffs, text1, text2, view1.starts, view2.starts);
+            }
+        }
+
+        if (outermost && this.diffGranularity !== DiffGranularity.DIFF_CHARACTER)
+        {
+            return yield* this.diff_granularModeSteps_(text1, text2, deadline, budget);
+        }
+
+        if (typeof optChecklines === "undefined")
+        {
+            optChecklines = true;
+        }
+        const checklines = optChecklines;
+
+        // Trim off common prefix (speedup).
+        let commonlength = this.diff_commonPrefix_(text1, text2, true);
+        const commonprefix = text1.substring(0, commonlength);
+        text1 = text1.substring(commonlength);
+        text2 = text2.substring(commonlength);
+
+        // Trim off common suffix (speedup).
+        commonlength = this.diff_commonSuffix_(text1, text2, true);
+        const commonsuffix = text1.substring(text1.length - commonlength);
+        text1 = text1.substring(0, text1.length - commonlength);
+        text2 = text2.substring(0, text2.length - commonlength);
+
+        // Compute the diff on the middle block, without starting its steps if
+        // it needs no diffing.
+        const mark = budget.approximated.length;
+        const diffs = this.diff_computeSpeedup_(text1, text2)
+            ?? (yield* this.diff_computeSteps_(text1, text2, checklines, deadline, budget));
+        this.diff_shiftRegions_(budget, mark, commonprefix.length, commonprefix.length);
+
+        this.diff_restoreCommon_(diffs, commonprefix, commonsuffix, outermost);
+        return diffs;
+    }
+
+    /**
+     * Run steps to completion synchronously, for diff_main and the other
+     * callers which need not yield.
+     *
+     * @private
+     * @param {Generator<DiffProgress, T, void>} steps Steps of a diff.
+     * @returns {T} What the steps return.
+     */
+    private diff_run_<T>(steps: Generator<DiffProgress, T, void>): T
+    {
+        let step = steps.next();
+        while (!step.done)
+        {
+            step = steps.next();
+        }
+        return step.value;
+    }
+
+    /**
+     * Restore the common prefix and suffix around the diff of the middle
+     * block, and merge like operations.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples of the middle block.
+     * @param {string} commonprefix Common prefix of the texts.
+     * @param {string} commonsuffix Common suffix of the texts.
+     * @param {boolean} outermost True if not a recursive call.
+     */
+    private diff_restoreCommon_(diffs: Diff[], commonprefix: string, commonsuffix: string, outermost: boolean): void
+    {
+        if (commonprefix)
+        {
+            diffs.unshift([DiffOperation.DIFF_EQUAL, commonprefix]);
+        }
+        if (commonsuffix)
+        {
+            diffs.push([DiffOperation.DIFF_EQUAL, commonsuffix]);
+        }
+        if (outermost && this.surrogateSafe)
+        {
+            // The bisection and the half match may still cut through a pair.
+            this.diff_cleanupSurrogates_(diffs);
+        }
+        this.diff_cleanupMerge_(diffs, true);
+    }
+
+    /**
+     * The reason to reject an aborted diff_mainAsync with.
+     *
+     * @private
+     * @param {AbortSignalLike} [signal] The aborted signal.
+     * @returns {unknown} The reason of the signal, or an Error if it has none.
+     */
+    private diff_abortReason_(signal?: AbortSignalLike): unknown
+    {
+        if (signal && typeof signal.reason !== "undefined")
+        {
+            return signal.reason;
+        }
+        return new Error("Aborted. (diff_mainAsync)");
+    }
+
+    /**
+     * The time by which a new diff must be complete.
+     *
+     * @private
+     * @returns {number} The deadline, Number.MAX_VALUE for none.
+     */
+    private diff_deadline_(): number
+    {
+        if (this.diffTimeout <= 0 || this.diffStepBudget > 0)
+        {
+            return Number.MAX_VALUE;
+        }
+        return Date.now() + this.diffTimeout * 1000;
+    }
+
+    /**
+     * The steps a new diff may take.
+     *
+     * @private
+     * @returns {DiffBudget} The budget, Infinity steps for none.
+     */
+    private diff_budget_(): DiffBudget
+    {
+        return {
+            steps: this.diffStepBudget > 0 ? this.diffStepBudget : Infinity,
+            truncated: false,
+            approximated: []
+        };
+    }
+
+    /**
+     * Move the regions approximated since mark by the offsets of the texts they
+     * were found in.
+     *
+     * @private
+     * @param {DiffBudget} budget The budget holding the regions.
+     * @param {number} mark Number of regions approximated before.
+     * @param {number} offset1 Offset of the old text.
+     * @param {number} offset2 Offset of the new text.
+     */
+    private diff_shiftRegions_(budget: DiffBudget, mark: number, offset1: number, offset2: number): void
+    {
+        for (let i = mark; i < budget.approximated.length; i++)
+        {
+            budget.approximated[i].start1 += offset1;
+            budget.approximated[i].start2 += offset2;
+        }
+    }
+
+    /**
+     * Convert the regions approximated since mark from token indices back to
+     * the offsets of the tokens they stand for.
+     *
+     * @private
+     * @param {DiffBudget} budget The budget holding the regions.
+     * @param {number} mark Number of regions approximated before.
+     * @param {number[]} tokens1 Old token indices.
+     * @param {number[]} tokens2 New token indices.
+     * @param {string[]} tokenArray Array of unique tokens.
+     */
+    private diff_tokensToRegions_(
+        budget: DiffBudget,
+        mark: number,
+        tokens1: number[],
+        tokens2: number[],
+        tokenArray: string[]
+    ): void
+    {
+        const length = (tokens: number[], start: number, end: number) =>
+        {
+            let result = 0;
+            for (let i = start; i < end; i++)
+            {
+                result += tokenArray[tokens[i]].length;
+            }
+            return result;
+        };
+        for (let i = mark; i < budget.approximated.length; i++)
+        {
+            const region = budget.approximated[i];
+            budget.approximated[i] = {
+                start1: length(tokens1, 0, region.start1),
+                length1: length(tokens1, region.start1, region.start1 + region.length1),
+                start2: length(tokens2, 0, region.start2),
+                length2: length(tokens2, region.start2, region.start2 + region.length2)
+            };
+        }
+    }
+
+    /**
+     * Move the regions approximated since mark from a normalized view back to
+     * the original texts, see diff_normalize_.
+     *
+     * @private
+     * @param {DiffBudget} budget The budget holding the regions.
+     * @param {number} mark Number of regions approximated before.
+     * @param {number[]} starts1 Offsets of the normalized old text.
+     * @param {number[]} starts2 Offsets of the normalized new text.
+     */
+    private diff_viewToRegions_(budget: DiffBudget, mark: number, starts1: number[], starts2: number[]): void
+    {
+        for (let i = mark; i < budget.approximated.length; i++)
+        {
+            const region = budget.approximated[i];
+            budget.approximated[i] = {
+                start1: starts1[region.start1],
+                length1: starts1[region.start1 + region.length1] - starts1[region.start1],
+                start2: starts2[region.start2],
+                length2: starts2[region.start2 + region.length2] - starts2[region.start2]
+            };
+        }
+    }
+
+    /**
+     * Find the differences between two texts. Assumes that the texts do not
+     * have any common prefix or suffix, and need diffing (see
+     * diff_computeSpeedup_).
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {boolean} checklines Speedup flag. If false, then don't run a
+     * line-level diff first to identify the changed areas.
+     * If true, then run a faster, slightly less optimal diff.
+     * @param {number} deadline Time when the diff should be complete by.
+     * @param {DiffBudget} budget Steps left before bailing, shared by the whole diff.
+     * @returns {Generator<DiffProgress, Diff[], void>} Steps of the diff, returning
+     * the array of diff tuples.
+     */
+    private *diff_computeSteps_(
+        text1: string,
+        text2: string,
+        checklines: boolean,
+        deadline: number,
+        budget: DiffBudget
+    ): Generator<DiffProgress, Diff[], void>
+    {
+        // Check to see if the problem can be split in two.
+        const hm = this.diff_halfMatch_(text1, text2);
+        if (hm)
+        {
+            // A half-match was found, sort out the return data.
+            const text1A = hm[0];
+            const text1B = hm[1];
+            const text2A = hm[2];
+            const text2B = hm[3];
+            const midCommon = hm[4];
+            // Send both pairs off for separate processing.
+            const diffsA = yield* this.diff_mainSteps_(text1A, text2A, checklines, deadline, budget);
+            const mark = budget.approximated.length;
+            const diffsB = yield* this.diff_mainSteps_(text1B, text2B, checklines, deadline, budget);
+            this.diff_shiftRegions_(
+                budget,
+                mark,
+                text1A.length + midCommon.length,
+                text2A.length + midCommon.length
+            );
+            // Merge the results.
+            return diffsA.concat([[DiffOperation.DIFF_EQUAL, midCommon]], diffsB);
+        }
+
+        if (checklines && text1.length > 100 && text2.length > 100)
+        {
+            return yield* this.diff_lineModeSteps_(text1, text2, deadline, budget);
+        }
+
+        return yield* this.diff_bisectSteps_(text1, text2, deadline, budget);
+    }
+
+    /**
+     * Find the differences between two texts without diffing them, if one is
+     * empty, inside the other or a single character long, see diff_mainSteps_.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @returns {(Diff[] | null)} Array of diff tuples, or null if the texts
+     * need diffing.
+     */
+    private diff_computeSpeedup_(text1: string, text2: string): Diff[] | null
+    {
+        let diffs: Diff[];
+
+        if (!text1)
+        {
+            // Just add some text (speedup).
+            return [[DiffOperation.DIFF_INSERT, text2]];
+        }
+
+        if (!text2)
+        {
+            // Just delete some text (speedup).
+            return [[DiffOperation.DIFF_DELETE, text1]];
+        }
+
+        const longtext = text1.length > text2.length ? text1 : text2;
+        const shorttext = text1.length > text2.length ? text2 : text1;
+        const i = longtext.indexOf(shorttext);
+        if (i !== -1)
+        {
+            // Shorter text is inside the longer text (speedup).
+            diffs = [
+                [DiffOperation.DIFF_INSERT, longtext.substring(0, i)],
+                [DiffOperation.DIFF_EQUAL, shorttext],
+                [DiffOperation.DIFF_INSERT, longtext.substring(i + shorttext.length)]
+            ];
+            // Swap insertions for deletions if diff is reversed.
+            if (text1.length > text2.length)
+            {
+                diffs[0][0] = DiffOperation.DIFF_DELETE;
+                diffs[2][0] = DiffOperation.DIFF_DELETE;
+            }
+            return diffs;
+        }
+
+        if (shorttext.length === 1)
+        {
+            // Single character string.
+            // After the previous speedup, the character can't be an equality.
+            return [
+                [DiffOperation.DIFF_DELETE, text1],
+                [DiffOperation.DIFF_INSERT, text2]
+            ];
+        }
+
+        return null;
+    }
+
+    /**
+     * Do a quick line-level diff on both strings, then re-diff the parts for
+     * greater accuracy.
+     * This speedup can produce non-minimal diffs.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {number} deadline Time when the diff should be complete by.
+     * @param {DiffBudget} budget Steps left before bailing, shared by the whole diff.
+     * @returns {Generator<DiffProgress, Diff[], void>} Steps of the diff, returning
+     * the array of diff tuples.
+     */
+    private *diff_lineModeSteps_(text1: string, text2: string, deadline: number, budget: DiffBudget): Generator<DiffProgress, Diff[], void>
+    {
+        // Scan the text on a line-by-line basis first.
+        const mark = budget.approximated.length;
+        const blocks = this.diff_lineModeBlocks_(yield* this.diff_linesSteps_(text1, text2, deadline, budget));
+        // Lines given up on are re-diffed below, which approximates on its own.
+        budget.approximated.length = mark;
+
+        // Re-diff any replacement blocks, this time character-by-character.
+        const diffs: Diff[] = [];
+        let length1 = 0;
+        let length2 = 0;
+        for (let x = 0; x < blocks.length; x++)
+        {
+            let subDiff: Diff[] = [blocks[x]];
+            if (blocks[x][0] === DiffOperation.DIFF_DELETE && x + 1 < blocks.length &&
+                blocks[x + 1][0] === DiffOperation.DIFF_INSERT)
+            {
+                yield { stage: DiffProgressStage.DIFF_LINE_MODE, done: x, total: blocks.length };
+                const subMark = budget.approximated.length;
+                subDiff = yield* this.diff_mainSteps_(blocks[x][1], blocks[x + 1][1], false, deadline, budget);
+                this.diff_shiftRegions_(budget, subMark, length1, length2);
+                length1 += blocks[x][1].length;
+                length2 += blocks[x + 1][1].length;
+                x++;
+            }
+            else
+            {
+                length1 += blocks[x][0] === DiffOperation.DIFF_INSERT ? 0 : blocks[x][1].length;
+                length2 += blocks[x][0] === DiffOperation.DIFF_DELETE ? 0 : blocks[x][1].length;
+            }
+            for (let j = 0; j < subDiff.length; j++)
+            {
+                diffs.push(subDiff[j]);
+            }
+        }
+        return diffs;
+    }
+
+    /**
+     * Clean up a line-level diff for diff_lineModeSteps_, and join the deletions and
+     * the insertions between two equalities into one deletion followed by one
+     * insertion if there are both, the replacement blocks to re-diff.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples, each of whole lines.
+     * @returns {Diff[]} Array of diff tuples.
+     */
+    private diff_lineModeBlocks_(diffs: Diff[]): Diff[]
+    {
+        // Eliminate freak matches (e.g. blank lines)
+        this.diff_cleanupSemantic(diffs);
+
+        const blocks: Diff[] = [];
+        // Add a dummy entry at the end.
+        diffs.push([DiffOperation.DIFF_EQUAL, ""]);
+        let start = 0;
+        let countDelete = 0;
+        let countInsert = 0;
+        let textDelete = "";
+        let textInsert = "";
+        for (let pointer = 0; pointer < diffs.length; pointer++)
+        {
+            switch (diffs[pointer][0])
+            {
+                case DiffOperation.DIFF_INSERT:
+                    countInsert++;
+                    textInsert += diffs[pointer][1];
+                    break;
+                case DiffOperation.DIFF_DELETE:
+                    countDelete++;
+                    textDelete += diffs[pointer][1];
+                    break;
+                case DiffOperation.DIFF_EQUAL:
+                    // Upon reaching an equality, check for prior replacements.
+                    if (countDelete >= 1 && countInsert >= 1)
+                    {
+                        blocks.push([DiffOperation.DIFF_DELETE, textDelete]);
+                        blocks.push([DiffOperation.DIFF_INSERT, textInsert]);
+                    }
+                    else
+                    {
+                        for (let x = start; x < pointer; x++)
+                        {
+                            blocks.push(diffs[x]);
+                        }
+                    }
+                    if (diffs[pointer][1])
+                    {
+                        blocks.push(diffs[pointer]);
+                    }
+                    start = pointer + 1;
+                    countInsert = 0;
+                    countDelete = 0;
+                    textDelete = "";
+                    textInsert = "";
+                    break;
+            }
+        }
+        return blocks;
+    }
+
+    /**
+     * Do a line-level diff on both strings, with diffAlgorithm.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {number} deadline Time when the diff should be complete by.
+     * @param {DiffBudget} budget Steps left before bailing, shared by the whole diff.
+     * @returns {Generator<DiffProgress, Diff[], void>} Steps of the diff, returning
+     * the array of diff tuples, each of whole lines.
+     */
+    private *diff_linesSteps_(text1: string, text2: string, deadline: number, budget: DiffBudget): Generator<DiffProgress, Diff[], void>
+    {
+        const a = this.diff_linesToTokens_(text1, text2);
+        const linearray = a.lineArray;
+
+        const tokenDiffs = yield* this.diff_tokensSteps_(a.tokens1, a.tokens2, linearray.length, deadline, budget);
+
+        // Convert the diff back to original text.
+        return this.diff_tokensToLines_(tokenDiffs, linearray);
+    }
+
+    /**
+     * Do a word-, grapheme- or token-level diff on both strings, see
+     * diffGranularity. Unlike diff_lineModeSteps_, the parts are not re-diffed,
+     * so words, graphemes and tokens are never split.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {number} deadline Time when the diff should be complete by.
+     * @param {DiffBudget} budget Steps left before bailing, shared by the whole diff.
+     * @returns {Generator<DiffProgress, Diff[], void>} Steps of the diff, returning
+     * the array of diff tuples.
+     */
+    private *diff_granularModeSteps_(text1: string, text2: string, deadline: number, budget: DiffBudget): Generator<DiffProgress, Diff[], void>
+    {
+        const a = this.diff_granularToTokens_(text1, text2);
+        const mark = budget.approximated.length;
+        const tokenDiffs = yield* this.diff_tokensMyersSteps_(a.tokens1, a.tokens2, a.tokenArray.length, deadline, budget);
+        this.diff_tokensToRegions_(budget, mark, a.tokens1, a.tokens2, a.tokenArray);
+
+        // Convert the diff back to original text.
+        return this.diff_tokensToLines_(tokenDiffs, a.tokenArray);
+    }
+
+    /**
+     * Split two texts into arrays of word, grapheme or token indices, depending
+     * on diffGranularity. Unlike diff_wordsToChars, diff_graphemesToChars and
+     * diff_codeToChars, there is no limit on the number of unique tokens.
+     *
+     * @private
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @returns {{tokens1: number[], tokens2: number[], tokenArray: string[]}}
+     * An object containing the indices of text1, the indices of text2 and
+     * the array of unique strings.
+     * The zeroth element of the array of unique strings is intentionally blank.
+     */
+    private diff_granularToTokens_(
+        text1: string,
+        text2: string
+    ): { tokens1: number[]; tokens2: number[]; tokenArray: string[] }
+    {
+        const tokenArray: string[] = []; // e.g. tokenArray[4] == 'Hello'
+        const tokenHash: Record<string, number> = {}; // e.g. tokenHash['Hello'] == 4
+
+        // Keep the indices identical to the ones of diff_wordsToChars.
+        tokenArray[0] = "";
+
+        const tokens1 = this.diff_granularToTokensMunge_(this.diff_granularTokens_(text1), tokenArray, tokenHash);
+        const tokens2 = this.diff_granularToTokensMunge_(this.diff_granularTokens_(text2), tokenArray, tokenHash);
+        return { tokens1, tokens2, tokenArray };
+    }
+
+    /**
+     * Reduce a text split into words, graphemes or code tokens to an array of
+     * their indices.
+     * Modifies tokenArray and tokenHash through being a closure.
+     *
+     * @private
+     * @param {string[]} tokens Tokens of the string to encode.
+     * @param {string[]} tokenArray Array of unique tokens.
+     * @param {Record<string, number>} tokenHash Map of tokens to indices.
+     * @returns {number[]} Token indices.
+     */
+    private diff_granularToTokensMunge_(
+        tokens: string[],
+        tokenArray: string[],
+        tokenHash: Record<string, number>
+    ): number[]
+    {
+        const indices: number[] = [];
+        for (let x = 0; x < tokens.length; x++)
+        {
+            const token = tokens[x];
+            if (tokenHash.hasOwnProperty(token))
+            {
+                indices[x] = tokenHash[token];
+            }
+            else
+            {
+                indices[x] = tokenArray.length;
+                tokenHash[token] = tokenArray.length;
+                tokenArray.push(token);
+            }
+        }
+        return indices;
+    }
+
+    /**
+     * Diff two arrays of indices with diffAlgorithm: the patience and
+     * histogram algorithms match up runs first, then the gaps between them are
+     * diffed with diff_tokensMyersSteps_.
+     *
+     * @private
+     * @param {number[]} tokens1 Old indices to be diffed.
+     * @param {number[]} tokens2 New indices to be diffed.
+     * @param {number} tokenCount Number of unique indices.
+     * @param {number} deadline Time when the diff should be complete by.
+     * @param {DiffBudget} budget Steps left before bailing, shared by the whole diff.
+     * @returns {Generator<DiffProgress, Array<SequenceDiff<number>>, void>} Steps
+     * of the diff, returning the array of index diff tuples.
+     */
+    private *diff_tokensSteps_(
+        tokens1: number[],
+        tokens2: number[],
+        tokenCount: number,
+        deadline: number,
+        budget: DiffBudget
+    ): Generator<DiffProgress, Array<SequenceDiff<number>>, void>
+    {
+        const matches: Array<[number, number, number]> = [];
+        switch (this.diffAlgorithm)
+        {
+            case DiffAlgorithm.DIFF_PATIENCE:
+                this.diff_patienceMatches_(tokens1, tokens2, 0, 0, deadline, budget, matches);
+                break;
+            case DiffAlgorithm.DIFF_HISTOGRAM:
+                this.diff_histogramMatches_(tokens1, tokens2, tokenCount, deadline, budget, matches);
+                break;
+            default:
+                // Nothing matched up, Myers diffs the indices as a whole.
+                break;
+        }
+        return yield* this.diff_tokensBetweenSteps_(
+            tokens1,
+            tokens2,
+            matches,
+            tokenCount,
+            deadline,
+            budget
+        );
+    }
+
+    /**
+     * Diff two arrays of indices with diff_bisectSteps_. Diffs of more than
+     * 65536 unique indices are done in one step.
+     *
+     * @private
+     * @param {number[]} tokens1 Old indices to be diffed.
+     * @param {number[]} tokens2 New indices to be diffed.
+     * @param {number} tokenCount Number of unique indices.
+     * @param {number} deadline Time when the diff should be complete by.
+     * @param {DiffBudget} budget Steps left before bailing, shared by the whole diff.
+     * @returns {Generator<DiffProgress, Array<SequenceDiff<number>>, void>} Steps
+     * of the diff, returning the array of index diff tuples.
+     */
+    private *diff_tokensMyersSteps_(
+        tokens1: number[],
+        tokens2: number[],
+        tokenCount: number,
+        deadline: number,
+        budget: DiffBudget
+    ): Generator<DiffProgress, Array<SequenceDiff<number>>, void>
+    {
+        if (tokenCount <= 65536)
+        {
+            // Each index fits into one UTF-16 code unit, diff the encoded strings.
+            return this.diff_charsToTokens_(yield* this.diff_mainSteps_(
+                this.diff_tokensToChars_(tokens1),
+                this.diff_tokensToChars_(tokens2),
+                false,
+                deadline,
+                budget
+            ));
+        }
+
+        // Too many unique indices to encode, diff the indices themselves.
+        return this.diff_sequenceMain_(tokens1, tokens2, (x, y) => x === y, deadline, budget);
+    }
+
+    /**
+     * Recursively match up the indices of two arrays for diff_tokensSteps_.
+     *
+     * @private
+     * @param {number[]} tokens1 Old indices to be diffed.
+     * @param {number[]} tokens2 New indices to be diffed.
+     * @param {number} offset1 Position of tokens1 in the whole old array.
+     * @param {number} offset2 Position of tokens2 in the whole new array.
+     * @param {number} deadline Time when the diff should be complete by.
+     * @param {DiffBudget} budget Steps left before bailing, shared by the whole diff.
+     * @param {Array<[number, number, number]>} matches Common runs found so far,
+     * see diff_tokensBetweenSteps_. The runs of tokens1 and tokens2 are added in order.
+     */
+    private diff_patienceMatches_(
+        tokens1: number[],
+        tokens2: number[],
+        offset1: number,
+        offset2: number,
+        deadline: number,
+        budget: DiffBudget,
+        matches: Array<[number, number, number]>
+    ): void
+    {
+        const equals = (x: number, y: number) => x === y;
+
+        // Trim off common prefix and suffix, they are matched up anyway.
+        const prefixLength = this.diff_sequenceCommonPrefix_(tokens1, tokens2, equals);
+        if (prefixLength)
+        {
+            matches.push([offset1, offset2, prefixLength]);
+            tokens1 = tokens1.slice(prefixLength);
+            tokens2 = tokens2.slice(prefixLength);
+            offset1 += prefixLength;
+            offset2 += prefixLength;
+        }
+        const suffixLength = this.diff_sequenceCommonSuffix_(tokens1, tokens2, equals);
+        tokens1 = tokens1.slice(0, tokens1.length - suffixLength);
+        tokens2 = tokens2.slice(0, tokens2.length - suffixLength);
+
+        const anchors = (tokens1.length && tokens2.length && Date.now() <= deadline && budget.steps > 0)
+            ? this.diff_patienceAnchors_(tokens1, tokens2)
+            : [];
+        if (anchors.length)
+        {
+            // Match up the gaps between the anchors.
+            let x = 0;
+            let y = 0;
+            for (let i = 0; i < anchors.length; i++)
+            {
+                this.diff_patienceMatches_(
+                    tokens1.slice(x, anchors[i][0]),
+                    tokens2.slice(y, anchors[i][1]),
+                    offset1 + x,
+                    offset2 + y,
+                    deadline,
+                    budget,
+                    matches
+                );
+                matches.push([offset1 + anchors[i][0], offset2 + anchors[i][1], 1]);
+                x = anchors[i][0] + 1;
+                y = anchors[i][1] + 1;
+            }
+            this.diff_patienceMatches_(
+                tokens1.slice(x),
+                tokens2.slice(y),
+                offset1 + x,
+                offset2 + y,
+                deadline,
+                budget,
+                matches
+            );
+        }
+        // Else nothing to anchor on (or out of time), the gap is diffed by diff_tokensBetweenSteps_.
+
+        if (suffixLength)
+        {
+            matches.push([offset1 + tokens1.length, offset2 + tokens2.length, suffixLength]);
+        }
+    }
+
+    /**
+     * Add a sequence diff tuple to the end of a diff, merging it into the last
+     * tuple if both have the same operation.
+     *
+     * @private
+     * @param {Array<SequenceDiff<T>>} diffs Array of sequence diff tuples.
+     * @param {SequenceDiff<T>} diff Sequence diff tuple to add.
+     */
+    private diff_pushMerged_<T>(diffs: Array<SequenceDiff<T>>, diff: SequenceDiff<T>): void
+    {
+        if (diffs.length && diffs[diffs.length - 1][0] === diff[0])
+        {
+            // The items of the last tuple are not shared, add to them in place.
+            const items = diffs[diffs.length - 1][1];
+            for (let x = 0; x < diff[1].length; x++)
+            {
+                items.push(diff[1][x]);
+            }
+        }
+        else
+        {
+            diffs.push(diff);
+        }
+    }
+
+    /**
+     * Diff two arrays of indices around the runs they have in common, diffing
+     * the gaps between the runs with diff_tokensMyersSteps_.
+     *
+     * @private
+     * @param {number[]} tokens1 Old indices to be diffed.
+     * @param {number[]} tokens2 New indices to be diffed.
+     * @param {Array<[number, number, number]>} matches Common runs as start in
+     * tokens1, start in tokens2 and length, in order and without overlaps.
+     * @param {number} tokenCount Number of unique indices.
+     * @param {number} deadline Time when the diff should be complete by.
+     * @param {DiffBudget} budget Steps left before bailing, shared by the whole diff.
+     * @returns {Generator<DiffProgress, Array<SequenceDiff<number>>, void>} Steps
+     * of the diff, returning the array of index diff tuples.
+     */
+    private *diff_tokensBetweenSteps_(
+        tokens1: number[],
+        tokens2: number[],
+        matches: Array<[number, number, number]>,
+        tokenCount: number,
+        deadline: number,
+        budget: DiffBudget
+    ): Generator<DiffProgress, Array<SequenceDiff<number>>, void>
+    {
+        const diffs: Array<SequenceDiff<number>> = [];
+        let x = 0;
+        let y = 0;
+        for (let i = 0; i <= matches.length; i++)
+        {
+            // A last empty run at the ends closes the final gap.
+            const match = i < matches.length ? matches[i] : [tokens1.length, tokens2.length, 0];
+            if (x < match[0] || y < match[1])
+            {
+                yield { stage: DiffProgressStage.DIFF_LINE_MODE, done: i, total: matches.length + 1 };
+                const gap = yield* this.diff_tokensMyersSteps_(
+                    tokens1.slice(x, match[0]),
+                    tokens2.slice(y, match[1]),
+                    tokenCount,
+                    deadline,
+                    budget
+                );
+                for (let j = 0; j < gap.length; j++)
+                {
+                    this.diff_pushMerged_(diffs, gap[j]);
+                }
+            }
+            if (match[2])
+            {
+                this.diff_pushMerged_(diffs, [DiffOperation.DIFF_EQUAL, tokens1.slice(match[0], match[0] + match[2])]);
+            }
+            x = match[0] + match[2];
+            y = match[1] + match[2];
+        }
+        this.diff_sequenceCleanupMerge(diffs);
+        return diffs;
+    }
+
+    /**
+     * Find the indices that occur exactly once in both arrays, and keep the
+     * longest run of them that appears in the same order in both arrays
+     * (the longest increasing subsequence, found by patience sorting).
+     *
+     * @private
+     * @param {number[]} tokens1 First array of indices.
+     * @param {number[]} tokens2 Second array of indices.
+     * @returns {Array<[number, number]>} Positions of the anchors in tokens1
+     * and tokens2, in ascending order.
+     */
+    private diff_patienceAnchors_(tokens1: number[], tokens2: number[]): Array<[number, number]>
+    {
+        // Count the occurrences of each index, remembering where it was seen.
+        const counts1: Record<number, number> = {};
+        const counts2: Record<number, number> = {};
+        const positions2: Record<number, number> = {};
+        for (let x = 0; x < tokens1.length; x++)
+        {
+            counts1[tokens1[x]] = (counts1[tokens1[x]] || 0) + 1;
+        }
+        for (let y = 0; y < tokens2.length; y++)
+        {
+            counts2[tokens2[y]] = (counts2[tokens2[y]] || 0) + 1;
+            positions2[tokens2[y]] = y;
+        }
+
+        // The unique common indices, in the order of tokens1.
+        const pairs: Array<[number, number]> = [];
+        for (let x = 0; x < tokens1.length; x++)
+        {
+            if (counts1[tokens1[x]] === 1 && counts2[tokens1[x]] === 1)
+            {
+                pairs.push([x, positions2[tokens1[x]]]);
+            }
+        }
+
+        // Deal the pairs onto piles, each pile's top has a smaller position in
+        // tokens2 than the ones of the piles to its right.
+        const tops: number[] = [];
+        const previous: number[] = [];
+        for (let i = 0; i < pairs.length; i++)
+        {
+            let low = 0;
+            let high = tops.length;
+            while (low < high)
+            {
+                const mid = Math.floor((low + high) / 2);
+                if (pairs[tops[mid]][1] < pairs[i][1])
+                {
+                    low = mid + 1;
+                }
+                else
+                {
+                    high = mid;
+                }
+            }
+            previous[i] = low > 0 ? tops[low - 1] : -1;
+            tops[low] = i;
+        }
+
+        // Walk back from the top of the last pile.
+        const anchors: Array<[number, number]> = [];
+        for (let i = tops.length ? tops[tops.length - 1] : -1; i !== -1; i = previous[i])
+        {
+            anchors.unshift(pairs[i]);
+        }
+        return anchors;
+    }
+
+    /**
+     * Match up the indices of two arrays for diff_tokensSteps_. The parts are
+     * kept on a stack as ranges of tokens1 and tokens2, rather than recursed
+     * into as copies, so that long arrays neither overflow the call stack nor
+     * run out of memory.
+     *
+     * @private
+     * @param {number[]} tokens1 Old indices to be diffed.
+     * @param {number[]} tokens2 New indices to be diffed.
+     * @param {number} tokenCount Number of unique indices.
+     * @param {number} deadline Time when the diff should be complete by.
+     * @param {DiffBudget} budget Steps left before bailing, shared by the whole diff.
+     * @param {Array<[number, number, number]>} matches Common runs found so far,
+     * see diff_tokensBetweenSteps_. The runs of tokens1 and tokens2 are added in order.
+     */
+    private diff_histogramMatches_(
+        tokens1: number[],
+        tokens2: number[],
+        tokenCount: number,
+        deadline: number,
+        budget: DiffBudget,
+        matches: Array<[number, number, number]>
+    ): void
+    {
+        // Start and end in tokens1, start and end in tokens2 of the parts left,
+        // the leftmost one last. A common run is pushed as a part of its own,
+        // to be matched up as the common prefix of that part.
+        const parts: Array<[number, number, number, number]> = [[0, tokens1.length, 0, tokens2.length]];
+        const histogram = this.diff_histogramState_(tokenCount, tokens1.length);
+        for (let part = parts.pop(); part; part = parts.pop())
+        {
+            let [start1, end1, start2, end2] = part;
+
+            // Trim off common prefix and suffix, they are matched up anyway.
+            let prefixLength = 0;
+            while (start1 + prefixLength < end1 && start2 + prefixLength < end2
+                && tokens1[start1 + prefixLength] === tokens2[start2 + prefixLength])
+            {
+                prefixLength++;
+            }
+            if (prefixLength)
+            {
+                matches.push([start1, start2, prefixLength]);
+                start1 += prefixLength;
+                start2 += prefixLength;
+            }
+            let suffixLength = 0;
+            while (start1 < end1 - suffixLength && start2 < end2 - suffixLength
+                && tokens1[end1 - suffixLength - 1] === tokens2[end2 - suffixLength - 1])
+            {
+                suffixLength++;
+            }
+            end1 -= suffixLength;
+            end2 -= suffixLength;
+            if (suffixLength)
+            {
+                parts.push([end1, end1 + suffixLength, end2, end2 + suffixLength]);
+            }
+
+            if (start1 === end1 || start2 === end2 || Date.now() > deadline || budget.steps <= 0)
+            {
+                // Nothing to anchor on (or out of time), the part is diffed by
+                // diff_tokensBetweenSteps_.
+                continue;
+            }
+            budget.steps -= end1 - start1 + end2 - start2;
+            const region = this.diff_histogramRegion_(tokens1, tokens2, start1, end1, start2, end2, histogram);
+            if (region)
+            {
+                // Match up the parts around the common run.
+                const [x, y, length] = region;
+                parts.push(
+                    [x + length, end1, y + length, end2],
+                    [x, x + length, y, y + length],
+                    [start1, x, start2, y]
+                );
+            }
+        }
+    }
+
+    /**
+     * Start the histograms of the ranges of an array of indices.
+     *
+     * @private
+     * @param {number} tokenCount Number of unique indices.
+     * @param {number} length Length of the array.
+     * @returns {Histogram} The histogram of an empty range.
+     */
+    private diff_histogramState_(tokenCount: number, length: number): Histogram
+    {
+        const histogram: Histogram = {
+            counts: new Array(tokenCount),
+            firsts: new Array(tokenCount),
+            nexts: new Array(length)
+        };
+        for (let x = 0; x < tokenCount; x++)
+        {
+            histogram.counts[x] = 0;
+            histogram.firsts[x] = -1;
+        }
+        for (let x = 0; x < length; x++)
+        {
+            histogram.nexts[x] = -1;
+        }
+        return histogram;
+    }
+
+    /**
+     * Find the longest common run of two ranges of arrays of indices whose
+     * rarest index occurs least often in the range of tokens1.
+     *
+     * @private
+     * @param {number[]} tokens1 First array of indices.
+     * @param {number[]} tokens2 Second array of indices.
+     * @param {number} start1 Start of the range of tokens1.
+     * @param {number} end1 End of the range of tokens1.
+     * @param {number} start2 Start of the range of tokens2.
+     * @param {number} end2 End of the range of tokens2.
+     * @param {Histogram} histogram Histogram of an empty range of tokens1,
+     * which is left empty again.
+     * @returns {([number, number, number] | null)} Start of the run in tokens1,
+     * start of the run in tokens2 and length of the run. Or null if no index
+     * occurring at most 64 times in the range of tokens1 is common to both
+     * ranges.
+     */
+    private diff_histogramRegion_(
+        tokens1: number[],
+        tokens2: number[],
+        start1: number,
+        end1: number,
+        start2: number,
+        end2: number,
+        histogram: Histogram
+    ): [number, number, number] | null
+    {
+        const counts = histogram.counts;
+        const firsts = histogram.firsts;
+        const nexts = histogram.nexts;
+
+        // Build the histogram of the range of tokens1, backwards so that the
+        // occurrences of each index are chained in order.
+        for (let x = end1 - 1; x >= start1; x--)
+        {
+            nexts[x] = firsts[tokens1[x]];
+            firsts[tokens1[x]] = x;
+            counts[tokens1[x]]++;
+        }
+
+        let best: [number, number, number] | null = null;
+        // Indices occurring more often than this are never considered.
+        let bestCount = 64;
+        let y = start2;
+        while (y < end2)
+        {
+            const occurrences = counts[tokens2[y]];
+            let nextY = y + 1;
+            if (occurrences && occurrences <= bestCount)
+            {
+                for (let x = firsts[tokens2[y]]; x !== -1; x = nexts[x])
+                {
+                    // Grow the run around the occurrence in both directions.
+                    let runStart1 = x;
+                    let runStart2 = y;
+                    while (runStart1 > start1 && runStart2 > start2 && tokens1[runStart1 - 1] === tokens2[runStart2 - 1])
+                    {
+                        runStart1--;
+                        runStart2--;
+                    }
+                    let runEnd1 = x + 1;
+                    let runEnd2 = y + 1;
+                    while (runEnd1 < end1 && runEnd2 < end2 && tokens1[runEnd1] === tokens2[runEnd2])
+                    {
+                        runEnd1++;
+                        runEnd2++;
+                    }
+
+                    // The rarest index of the run rates it.
+                    let count = occurrences;
+                    for (let i = runStart1; i < runEnd1; i++)
+                    {
+                        count = math.min(count, counts[tokens1[i]]);
+                    }
+                    if (!best || count < bestCount || runEnd1 - runStart1 > best[2])
+                    {
+                        best = [runStart1, runStart2, runEnd1 - runStart1];
+                        bestCount = count;
+                    }
+                    // No need to look for runs starting inside this one.
+                    nextY = math.max(nextY, runEnd2);
+                }
+            }
+            y = nextY;
+        }
+
+        // Empty the histogram again.
+        for (let x = start1; x < end1; x++)
+        {
+            counts[tokens1[x]] = 0;
+            firsts[tokens1[x]] = -1;
+        }
+        return best;
+    }
+
+    /**
+     * Find the 'middle snake' of a diff, split the problem in two
+     * and return the recursively constructed diff.
+     * See Myers 1986 paper: An O(ND) Difference Algorithm and Its Variations.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {number} deadline Time at which to bail if not yet complete.
+     * @param {DiffBudget} budget Steps left before bailing, shared by the whole diff.
+     * @returns {Generator<DiffProgress, Diff[], void>} Steps of the diff, returning
+     * the array of diff tuples.
+     */
+    private *diff_bisectSteps_(text1: string, text2: string, deadline: number, budget: DiffBudget): Generator<DiffProgress, Diff[], void>
+    {
+        const bisect = this.diff_bisectState_(text1, text2, null);
+        const maxD = bisect.vOffset;
+        for (let d = 0; d < maxD; d++)
+        {
+            // Bail out if deadline is reached or the steps are spent.
+            if (Date.now() > deadline || budget.steps <= 0)
+            {
+                budget.truncated = true;
+                budget.approximated.push({ start1: 0, length1: text1.length, start2: 0, length2: text2.length });
+                break;
+            }
+            if (d % 32 === 31)
+            {
+                yield { stage: DiffProgressStage.DIFF_BISECT, done: d, total: maxD };
+            }
+            budget.steps -= this.diff_bisectDiagonals_(d, bisect.k1Start, bisect.k1End)
+                + this.diff_bisectDiagonals_(d, bisect.k2Start, bisect.k2End);
+            if (this.diff_bisectStep_(bisect, d))
+            {
+                // Split the diff in two parts at the 'middle snake' and
+                // compute both diffs serially.
+                const x = bisect.x;
+                const y = bisect.y;
+                const diffsA = yield* this.diff_mainSteps_(text1.substring(0, x), text2.substring(0, y), false, deadline, budget);
+                const mark = budget.approximated.length;
+                const diffsB = yield* this.diff_mainSteps_(text1.substring(x), text2.substring(y), false, deadline, budget);
+                this.diff_shiftRegions_(budget, mark, x, y);
+                return diffsA.concat(diffsB);
+            }
+        }
+        // Diff took too long and hit the deadline or
+        // number of diffs equals number of characters, no commonality at all.
+        return [
             [DiffOperation.DIFF_DELETE, text1],
             [DiffOperation.DIFF_INSERT, text2]
         ];
     }
 
     /**
-     * Given the location of the 'middle snake', split the diff in two parts
-     * and recurse.
+     * Start a bisection of two strings or sequences.
+     *
+     * @private
+     * @param {ArrayLike<T>} items1 Old items to be diffed.
+     * @param {ArrayLike<T>} items2 New items to be diffed.
+     * @param {function(T, T): boolean | null} equals Item equality, or null for
+     * strict equality (===).
+     * @returns {BisectState<T>} The state of the bisection before its first step.
+     */
+    private diff_bisectState_<T>(
+        items1: ArrayLike<T>,
+        items2: ArrayLike<T>,
+        equals: ((a: T, b: T) => boolean) | null
+    ): BisectState<T>
+    {
+        const maxD = Math.ceil((items1.length + items2.length) / 2);
+        const vLength = 2 * maxD;
+        const bisect: BisectState<T> = {
+            items1,
+            items2,
+            equals,
+            v1: new Array(vLength),
+            v2: new Array(vLength),
+            vOffset: maxD,
+            k1Start: 0,
+            k1End: 0,
+            k2Start: 0,
+            k2End: 0,
+            x: 0,
+            y: 0
+        };
+        // Setting all elements to -1 is faster in Chrome & Firefox than mixing
+        // integers and undefined.
+        for (let x = 0; x < vLength; x++)
+        {
+            bisect.v1[x] = -1;
+            bisect.v2[x] = -1;
+        }
+        bisect.v1[maxD + 1] = 0;
+        bisect.v2[maxD + 1] = 0;
+        return bisect;
+    }
+
+    /**
+     * Count the diagonals one path of a bisection explores in a step.
+     *
+     * @private
+     * @param {number} d The step.
+     * @param {number} kStart Offset for the start of the k loop.
+     * @param {number} kEnd Offset for the end of the k loop.
+     * @returns {number} Number of diagonals.
+     */
+    private diff_bisectDiagonals_(d: number, kStart: number, kEnd: number): number
+    {
+        return Math.max(0, d + 1 - (kStart + kEnd) / 2);
+    }
+
+    /**
+     * Walk the front path and the reverse path of a bisection one step.
+     * Kept out of diff_bisectSteps_ so that the hot loops work on locals, and
+     * shared with diff_sequenceBisect_.
+     *
+     * @private
+     * @param {BisectState<T>} bisect The state of the bisection.
+     * @param {number} d The edit distance to walk to.
+     * @returns {boolean} True if the paths overlap, at bisect.x and bisect.y.
+     */
+    private diff_bisectStep_<T>(bisect: BisectState<T>, d: number): boolean
+    {
+        const items1 = bisect.items1;
+        const items2 = bisect.items2;
+        const equals = bisect.equals;
+        // Cache the item counts to prevent multiple calls.
+        const items1Length = items1.length;
+        const items2Length = items2.length;
+        const v1 = bisect.v1;
+        const v2 = bisect.v2;
+        const vOffset = bisect.vOffset;
+        const vLength = v1.length;
+        const delta = items1Length - items2Length;
+        // If the total number of items is odd, then the front path will collide
+        // with the reverse path.
+        const front = (delta % 2 !== 0);
+        // Offsets for start and end of k loop.
+        // Prevents mapping of space beyond the grid.
+        let k1Start = bisect.k1Start;
+        let k1End = bisect.k1End;
+        let k2Start = bisect.k2Start;
+        let k2End = bisect.k2End;
+
+        // Walk the front path one step.
+        for (let k1 = -d + k1Start; k1 <= d - k1End; k1 += 2)
+        {
+            const k1Offset = vOffset + k1;
+            let x1;
+            if (k1 === -d || (k1 !== d && v1[k1Offset - 1] < v1[k1Offset + 1]))
+            {
+                x1 = v1[k1Offset + 1];
+            }
+            else
+            {
+                x1 = v1[k1Offset - 1] + 1;
+            }
+
+            let y1 = x1 - k1;
+            // Strict equality gets a loop of its own to keep the common case fast.
+            if (equals === null)
+            {
+                while (x1 < items1Length && y1 < items2Length && items1[x1] === items2[y1])
+                {
+                    x1++;
+                    y1++;
+                }
+            }
+            else
+            {
+                while (x1 < items1Length && y1 < items2Length && equals(items1[x1], items2[y1]))
+                {
+                    x1++;
+                    y1++;
+                }
+            }
+            v1[k1Offset] = x1;
+            if (x1 > items1Length)
+            {
+                // Ran off the right of the graph.
+                k1End += 2;
+            }
+            else if (y1 > items2Length)
+            {
+                // Ran off the bottom of the graph.
+                k1Start += 2;
+            }
+            else if (front)
+            {
+                const k2Offset = vOffset + delta - k1;
+                if (k2Offset >= 0 && k2Offset < vLength && v2[k2Offset] !== -1)
+                {
+                    // Mirror x2 onto top-left coordinate system.
+                    const x2 = items1Length - v2[k2Offset];
+                    if (x1 >= x2)
+                    {
+                        // Overlap detected.
+                        bisect.x = x1;
+                        bisect.y = y1;
+                        return true;
+                    }
+                }
+            }
+        }
+        // Walk the reverse path one step.
+        for (let k2 = -d + k2Start; k2 <= d - k2End; k2 += 2)
+        {
+            const k2Offset = vOffset + k2;
+            let x2;
+            if (k2 === -d || (k2 !== d && v2[k2Offset - 1] < v2[k2Offset + 1]))
+            {
+                x2 = v2[k2Offset + 1];
+            }
+            else
+            {
+                x2 = v2[k2Offset - 1] + 1;
+            }
+            let y2 = x2 - k2;
+            if (equals === null)
+            {
+                while (
+                    x2 < items1Length
+                    && y2 < items2Length
+                    && items1[items1Length - x2 - 1] === items2[items2Length - y2 - 1]
+                )
+                {
+                    x2++;
+                    y2++;
+                }
+            }
+            else
+            {
+                while (
+                    x2 < items1Length
+                    && y2 < items2Length
+                    && equals(items1[items1Length - x2 - 1], items2[items2Length - y2 - 1])
+                )
+                {
+                    x2++;
+                    y2++;
+                }
+            }
+            v2[k2Offset] = x2;
+            if (x2 > items1Length)
+            {
+                // Ran off the left of the graph.
+                k2End += 2;
+            }
+            else if (y2 > items2Length)
+            {
+                // Ran off the top of the graph.
+                k2Start += 2;
+            }
+            else if (!front)
+            {
+                const k1Offset = vOffset + delta - k2;
+                if (k1Offset >= 0 && k1Offset < vLength && v1[k1Offset] !== -1)
+                {
+                    const x1 = v1[k1Offset];
+                    const y1 = vOffset + x1 - k1Offset;
+                    // Mirror x2 onto top-left coordinate system.
+                    x2 = items1Length - x2;
+                    if (x1 >= x2)
+                    {
+                        // Overlap detected.
+                        bisect.x = x1;
+                        bisect.y = y1;
+                        return true;
+                    }
+                }
+            }
+        }
+
+        bisect.k1Start = k1Start;
+        bisect.k1End = k1End;
+        bisect.k2Start = k2Start;
+        bisect.k2End = k2End;
+        return false;
+    }
+
+    /**
+     * Split a text into an array of strings. Reduce the texts to a string of
+     * hashes where each Unicode character represents one line.
+     * Modifies linearray and linehash through being a closure.
+     *
+     * @private
+     * @param {string} text String to encode.
+     * @param {string[]} lineArray Array of unique strings.
+     * @param {Record<string, number>} lineHash Line-hash pairs.
+     * @param {number} maxLines
+     * @returns {string} Encoded string.
+     */
+    private diff_linesToCharsMunge_(
+        text: string,
+        lineArray: string[],
+        lineHash: Record<string, number>,
+        maxLines: number
+    ): string
+    {
+        let chars = "";
+        // Walk the text, pulling out a substring for each line.
+        // text.split('\n') would would temporarily double our memory footprint.
+        // Modifying text would create many large strings to garbage collect.
+        let lineStart = 0;
+        let lineEnd = -1;
+        // Keeping our own length variable is faster than looking it up.
+        let lineArrayLength = lineArray.length;
+        while (lineEnd < text.length - 1)
+        {
+            lineEnd = text.indexOf("\n", lineStart);
+            if (lineEnd === -1)
+            {
+                lineEnd = text.length - 1;
+            }
+            let line = text.substring(lineStart, lineEnd + 1);
+
+            if (lineHash.hasOwnProperty
+                ? lineHash.hasOwnProperty(line)
+                : (lineHash[line] !== undefined))
+            {
+                chars += String.fromCharCode(lineHash[line]);
+            }
+            else
+            {
+                if (lineArrayLength === maxLines)
+                {
+                    // Bail out at 65535 because
+                    // String.fromCharCode(65536) == String.fromCharCode(0)
+                    line = text.substring(lineStart);
+                    lineEnd = text.length;
+                }
+                chars += String.fromCharCode(lineArrayLength);
+                lineHash[line] = lineArrayLength;
+                lineArray[lineArrayLength++] = line;
+            }
+            lineStart = lineEnd + 1;
+        }
+        return chars;
+    }
+
+    /**
+     * Split two texts into arrays of line indices. Unlike diff_linesToChars,
+     * there is no limit on the number of unique lines.
+     *
+     * @private
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @returns {{tokens1: number[], tokens2: number[], lineArray: string[]}}
+     * An object containing the indices of text1, the indices of text2 and
+     * the array of unique strings.
+     * The zeroth element of the array of unique strings is intentionally blank.
+     */
+    private diff_linesToTokens_(
+        text1: string,
+        text2: string
+    ): { tokens1: number[]; tokens2: number[]; lineArray: string[] }
+    {
+        const lineArray: string[] = []; // e.g. lineArray[4] == 'Hello\n'
+        const lineHash: Record<string, number> = {}; // e.g. lineHash['Hello\n'] == 4
+
+        // Keep the indices identical to the ones of diff_linesToChars.
+        lineArray[0] = "";
+
+        const tokens1 = this.diff_linesToTokensMunge_(text1, lineArray, lineHash);
+        const tokens2 = this.diff_linesToTokensMunge_(text2, lineArray, lineHash);
+        return { tokens1, tokens2, lineArray };
+    }
+
+    /**
+     * Split a text into an array of line indices.
+     * Modifies lineArray and lineHash through being a closure.
+     *
+     * @private
+     * @param {string} text String to encode.
+     * @param {string[]} lineArray Array of unique strings.
+     * @param {Record<string, number>} lineHash Line-hash pairs.
+     * @returns {number[]} Line indices.
+     */
+    private diff_linesToTokensMunge_(
+        text: string,
+        lineArray: string[],
+        lineHash: Record<string, number>
+    ): number[]
+    {
+        const tokens: number[] = [];
+        let lineStart = 0;
+        let lineEnd = -1;
+        while (lineEnd < text.length - 1)
+        {
+            lineEnd = text.indexOf("\n", lineStart);
+            if (lineEnd === -1)
+            {
+                lineEnd = text.length - 1;
+            }
+            const line = text.substring(lineStart, lineEnd + 1);
+
+            if (lineHash.hasOwnProperty(line))
+            {
+                tokens.push(lineHash[line]);
+            }
+            else
+            {
+                tokens.push(lineArray.length);
+                lineHash[line] = lineArray.length;
+                lineArray.push(line);
+            }
+            lineStart = lineEnd + 1;
+        }
+        return tokens;
+    }
+
+    /**
+     * Encode an array of indices (each below 65536) as a string where each
+     * Unicode character represents one index.
+     *
+     * @private
+     * @param {number[]} tokens Indices to encode.
+     * @returns {string} Encoded string.
+     */
+    private diff_tokensToChars_(tokens: number[]): string
+    {
+        let chars = "";
+        for (let x = 0; x < tokens.length; x++)
+        {
+            chars += String.fromCharCode(tokens[x]);
+        }
+        return chars;
+    }
+
+    /**
+     * Convert a diff of encoded strings (see diff_tokensToChars_) back to a
+     * diff of indices.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @returns {Array<SequenceDiff<number>>} Array of index diff tuples.
+     */
+    private diff_charsToTokens_(diffs: Diff[]): Array<SequenceDiff<number>>
+    {
+        const tokenDiffs: Array<SequenceDiff<number>> = [];
+        for (let i = 0; i < diffs.length; i++)
+        {
+            const chars = diffs[i][1];
+            const tokens = [];
+            for (let j = 0; j < chars.length; j++)
+            {
+                tokens[j] = chars.charCodeAt(j);
+            }
+            tokenDiffs[i] = [diffs[i][0], tokens];
+        }
+        return tokenDiffs;
+    }
+
+    /**
+     * Rehydrate a diff of line (or word, grapheme or code token) indices to
+     * real text.
+     *
+     * @private
+     * @param {Array<SequenceDiff<number>>} tokenDiffs Array of index diff tuples.
+     * @param {string[]} lineArray Array of unique strings.
+     * @returns {Diff[]} Array of diff tuples.
+     */
+    private diff_tokensToLines_(tokenDiffs: Array<SequenceDiff<number>>, lineArray: string[]): Diff[]
+    {
+        const diffs: Diff[] = [];
+        for (let i = 0; i < tokenDiffs.length; i++)
+        {
+            const tokens = tokenDiffs[i][1];
+            const text = [];
+            for (let j = 0; j < tokens.length; j++)
+            {
+                text[j] = lineArray[tokens[j]];
+            }
+            diffs[i] = [tokenDiffs[i][0], text.join("")];
+        }
+        return diffs;
+    }
+
+    /**
+     * Find the differences between two sequences. Works like diff_main,
+     * without the string-only speedups.
+     *
+     * @private
+     * @param {T[]} seq1 Old sequence to be diffed.
+     * @param {T[]} seq2 New sequence to be diffed.
+     * @param {function(T, T): boolean} equals Item equality.
+     * @param {number} deadline Time when the diff should be complete by.
+     * @param {DiffBudget} budget Steps left before bailing, shared by the whole diff.
+     * @returns {Array<SequenceDiff<T>>} Array of sequence diff tuples.
+     */
+    private diff_sequenceMain_<T>(
+        seq1: T[],
+        seq2: T[],
+        equals: (a: T, b: T) => boolean,
+        deadline: number,
+        budget: DiffBudget
+    ): Array<SequenceDiff<T>>
+    {
+        // Trim off common prefix (speedup).
+        const prefixLength = this.diff_sequenceCommonPrefix_(seq1, seq2, equals);
+        const prefix = seq1.slice(0, prefixLength);
+        seq1 = seq1.slice(prefixLength);
+        seq2 = seq2.slice(prefixLength);
+
+        // Trim off common suffix (speedup).
+        const suffixLength = this.diff_sequenceCommonSuffix_(seq1, seq2, equals);
+        const suffix = seq1.slice(seq1.length - suffixLength);
+        seq1 = seq1.slice(0, seq1.length - suffixLength);
+        seq2 = seq2.slice(0, seq2.length - suffixLength);
+
+        // Compute the diff on the middle block.
+        let middle: Array<SequenceDiff<T>>;
+        if (!seq1.length && !seq2.length)
+        {
+            middle = [];
+        }
+        else if (!seq1.length)
+        {
+            // Just add some items (speedup).
+            middle = [[DiffOperation.DIFF_INSERT, seq2]];
+        }
+        else if (!seq2.length)
+        {
+            // Just delete some items (speedup).
+            middle = [[DiffOperation.DIFF_DELETE, seq1]];
+        }
+        else
+        {
+            middle = this.diff_sequenceBisect_(seq1, seq2, equals, deadline, budget);
+        }
+
+        // Restore the prefix and suffix, and merge like operations.
+        const diffs: Array<SequenceDiff<T>> = [];
+        if (prefix.length)
+        {
+            diffs.push([DiffOperation.DIFF_EQUAL, prefix]);
+        }
+        if (suffix.length)
+        {
+            middle.push([DiffOperation.DIFF_EQUAL, suffix]);
+        }
+        for (let x = 0; x < middle.length; x++)
+        {
+            if (diffs.length && diffs[diffs.length - 1][0] === middle[x][0])
+            {
+                diffs[diffs.length - 1][1] = diffs[diffs.length - 1][1].concat(middle[x][1]);
+            }
+            else
+            {
+                diffs.push(middle[x]);
+            }
+        }
+        return diffs;
+    }
+
+    /**
+     * Determine the common prefix of two sequences.
+     *
+     * @private
+     * @param {T[]} seq1 First sequence.
+     * @param {T[]} seq2 Second sequence.
+     * @param {function(T, T): boolean} equals Item equality.
+     * @returns {number} The number of items common to the start of each sequence.
+     */
+    private diff_sequenceCommonPrefix_<T>(seq1: T[], seq2: T[], equals: (a: T, b: T) => boolean): number
+    {
+        const length = math.min(seq1.length, seq2.length);
+        let x = 0;
+        while (x < length && equals(seq1[x], seq2[x]))
+        {
+            x++;
+        }
+        return x;
+    }
+
+    /**
+     * Determine the common suffix of two sequences.
+     *
+     * @private
+     * @param {T[]} seq1 First sequence.
+     * @param {T[]} seq2 Second sequence.
+     * @param {function(T, T): boolean} equals Item equality.
+     * @returns {number} The number of items common to the end of each sequence.
+     */
+    private diff_sequenceCommonSuffix_<T>(seq1: T[], seq2: T[], equals: (a: T, b: T) => boolean): number
+    {
+        const length = math.min(seq1.length, seq2.length);
+        let x = 0;
+        while (x < length && equals(seq1[seq1.length - x - 1], seq2[seq2.length - x - 1]))
+        {
+            x++;
+        }
+        return x;
+    }
+
+    /**
+     * Find the 'middle snake' of a diff of two sequences, split the problem in
+     * two and return the recursively constructed diff.
+     * Same as diff_bisectSteps_.
+     *
+     * @private
+     * @param {T[]} seq1 Old sequence to be diffed.
+     * @param {T[]} seq2 New sequence to be diffed.
+     * @param {function(T, T): boolean} equals Item equality.
+     * @param {number} deadline Time at which to bail if not yet complete.
+     * @param {DiffBudget} budget Steps left before bailing, shared by the whole diff.
+     * @returns {Array<SequenceDiff<T>>} Array of sequence diff tuples.
+     */
+    private diff_sequenceBisect_<T>(
+        seq1: T[],
+        seq2: T[],
+        equals: (a: T, b: T) => boolean,
+        deadline: number,
+        budget: DiffBudget
+    ): Array<SequenceDiff<T>>
+    {
+        const bisect = this.diff_bisectState_(seq1, seq2, equals);
+        const maxD = bisect.vOffset;
+        for (let d = 0; d < maxD; d++)
+        {
+            // Bail out if deadline is reached or the steps are spent.
+            if (Date.now() > deadline || budget.steps <= 0)
+            {
+                budget.truncated = true;
+                break;
+            }
+            budget.steps -= this.diff_bisectDiagonals_(d, bisect.k1Start, bisect.k1End)
+                + this.diff_bisectDiagonals_(d, bisect.k2Start, bisect.k2End);
+            if (this.diff_bisectStep_(bisect, d))
+            {
+                return this.diff_sequenceBisectSplit_(seq1, seq2, equals, bisect.x, bisect.y, deadline, budget);
+            }
+        }
+        // Diff took too long and hit the deadline or
+        // number of diffs equals number of items, no commonality at all.
+        return [
+            [DiffOperation.DIFF_DELETE, seq1],
+            [DiffOperation.DIFF_INSERT, seq2]
+        ];
+    }
+
+    /**
+     * Given the location of the 'middle snake', split the diff of two
+     * sequences in two parts and recurse.
+     *
+     * @private
+     * @param {T[]} seq1 Old sequence to be diffed.
+     * @param {T[]} seq2 New sequence to be diffed.
+     * @param {function(T, T): boolean} equals Item equality.
+     * @param {number} x Index of split point in seq1.
+     * @param {number} y Index of split point in seq2.
+     * @param {number} deadline Time at which to bail if not yet complete.
+     * @param {DiffBudget} budget Steps left before bailing, shared by the whole diff.
+     * @returns {Array<SequenceDiff<T>>} Array of sequence diff tuples.
+     */
+    private diff_sequenceBisectSplit_<T>(
+        seq1: T[],
+        seq2: T[],
+        equals: (a: T, b: T) => boolean,
+        x: number,
+        y: number,
+        deadline: number,
+        budget: DiffBudget
+    ): Array<SequenceDiff<T>>
+    {
+        // Compute both diffs serially.
+        const diffsA = this.diff_sequenceMain_(seq1.slice(0, x), seq2.slice(0, y), equals, deadline, budget);
+        const diffsB = this.diff_sequenceMain_(seq1.slice(x), seq2.slice(y), equals, deadline, budget);
+
+        return diffsA.concat(diffsB);
+    }
+
+    /**
+     * Split a text into an array of words, and of the boundaries matched by
+     * diffWordBoundary between them.
+     *
+     * @private
+     * @param {string} text String to split.
+     * @returns {string[]} Words and boundaries of the text.
+     */
+    private diff_wordTokens_(text: string): string[]
+    {
+        const words: string[] = [];
+        const boundary = new RegExp(
+            this.diffWordBoundary.source,
+            this.diffWordBoundary.global ? this.diffWordBoundary.flags : this.diffWordBoundary.flags + "g"
+        );
+        let wordStart = 0;
+        let wordEnd: number;
+        while (wordStart < text.length)
+        {
+            boundary.lastIndex = wordStart;
+            const m = boundary.exec(text);
+            if (!m)
+            {
+                // The rest of the text is one word.
+                wordEnd = text.length;
+            }
+            else if (m.index > wordStart)
+            {
+                // A word in front of the next boundary.
+                wordEnd = m.index;
+            }
+            else
+            {
+                // The boundary itself, which must not be empty.
+                wordEnd = wordStart + math.max(m[0].length, 1);
+            }
+            words.push(text.substring(wordStart, wordEnd));
+            wordStart = wordEnd;
+        }
+        return words;
+    }
+
+    /**
+     * Determine the common prefix of two strings, see diff_commonPrefix.
+     *
+     * @private
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @param {boolean} characters True to only keep the surrogate pairs whole,
+     * see diff_alignIndex_.
+     * @returns {number} The number of characters common to the start of each string.
+     */
+    private diff_commonPrefix_(text1: string, text2: string, characters: boolean): number
+    {
+        // Quick check for common null cases.
+        if (!text1 ||
+            !text2 ||
+            text1.charAt(0) !== text2.charAt(0))
+        {
+            return 0;
+        }
+        // Binary search.
+        // Performance analysis: https://neil.fraser.name/news/2007/10/09/
+        let pointermin = 0;
+        let pointermax = math.min(text1.length, text2.length);
+        let pointermid = pointermax;
+        let pointerstart = 0;
+        while (pointermin < pointermid)
+        {
+            if (text1.substring(pointerstart, pointermid) ===
+                text2.substring(pointerstart, pointermid))
+            {
+                pointermin = pointermid;
+                pointerstart = pointermin;
+            }
+            else
+            {
+                pointermax = pointermid;
+            }
+            pointermid = Math.floor((pointermax - pointermin) / 2 + pointermin);
+        }
+        // Never end the prefix in the middle of a pair or a token of either text.
+        let aligned = -1;
+        while (aligned !== pointermid)
+        {
+            aligned = pointermid;
+            pointermid = this.diff_alignIndex_(
+                text2,
+                this.diff_alignIndex_(text1, pointermid, false, characters),
+                false,
+                characters
+            );
+        }
+        return pointermid;
+    }
+
+    /**
+     * Determine the common suffix of two strings, see diff_commonSuffix.
+     *
+     * @private
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @param {boolean} characters True to only keep the surrogate pairs whole,
+     * see diff_alignIndex_.
+     * @returns {number} The number of characters common to the end of each string.
+     */
+    private diff_commonSuffix_(text1: string, text2: string, characters: boolean): number
+    {
+        // Quick check for common null cases.
+        if (!text1 ||
+            !text2 ||
+            text1.charAt(text1.length - 1) !== text2.charAt(text2.length - 1))
+        {
+            return 0;
+        }
+        // Binary search.
+        // Performance analysis: https://neil.fraser.name/news/2007/10/09/
+        let pointermin = 0;
+        let pointermax = math.min(text1.length, text2.length);
+        let pointermid = pointermax;
+        let pointerend = 0;
+        while (pointermin < pointermid)
+        {
+            if (text1.substring(text1.length - pointermid, text1.length - pointerend) ===
+                text2.substring(text2.length - pointermid, text2.length - pointerend))
+            {
+                pointermin = pointermid;
+                pointerend = pointermin;
+            }
+            else
+            {
+                pointermax = pointermid;
+            }
+            pointermid = Math.floor((pointermax - pointermin) / 2 + pointermin);
+        }
+        // Never start the suffix in the middle of a pair or a token of either text.
+        let aligned = -1;
+        while (aligned !== pointermid)
+        {
+            aligned = pointermid;
+            pointermid = text1.length - this.diff_alignIndex_(text1, text1.length - pointermid, true, characters);
+            pointermid = text2.length - this.diff_alignIndex_(text2, text2.length - pointermid, true, characters);
+        }
+        return pointermid;
+    }
+
+    /**
+     * Reorder and merge like edit sections, see diff_cleanupMerge.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {boolean} characters True to only keep the surrogate pairs whole,
+     * see diff_alignIndex_.
+     */
+    private diff_cleanupMerge_(diffs: Diff[], characters: boolean): void
+    {
+        this.diff_cleanupMergeParts_(diffs, {
+            empty: "",
+            concat: (one, two) => one + two,
+            slice: (part, start, end) => part.substring(start, end),
+            commonPrefix: (one, two) => this.diff_commonPrefix_(one, two, characters),
+            commonSuffix: (one, two) => this.diff_commonSuffix_(one, two, characters),
+            startsWith: (part, start) => part.substring(0, start.length) === start,
+            endsWith: (part, end) => part.substring(part.length - end.length) === end
+        });
+    }
+
+    /**
+     * Reorder and merge like edit sections of the diff tuples of strings or of
+     * sequences, see diff_cleanupMerge and diff_sequenceCleanupMerge.
+     *
+     * @private
+     * @param {Array<[DiffOperation, S]>} diffs Array of diff tuples.
+     * @param {DiffParts<S>} parts Operations on the parts of the tuples.
+     */
+    private diff_cleanupMergeParts_<S extends { length: number }>(
+        diffs: Array<[DiffOperation, S]>,
+        parts: DiffParts<S>
+    ): void
+    {
+        // Add a dummy entry at the end.
+        diffs.push([DiffOperation.DIFF_EQUAL, parts.empty]);
+
+        let pointer = 0;
+        let countDelete = 0;
+        let countInsert = 0;
+        let textDelete = parts.empty;
+        let textInsert = parts.empty;
+        let commonlength: number;
+        while (pointer < diffs.length)
+        {
+            switch (diffs[pointer][0])
+            {
+                case DiffOperation.DIFF_INSERT:
+                    countInsert++;
+                    textInsert = parts.concat(textInsert, diffs[pointer][1]);
+                    pointer++;
+                    break;
+                case DiffOperation.DIFF_DELETE:
+                    countDelete++;
+                    textDelete = parts.concat(textDelete, diffs[pointer][1]);
+                    pointer++;
+                    break;
+                case DiffOperation.DIFF_EQUAL:
+                    // Upon reaching an equality, check for prior redundancies.
+                    if (countDelete + countInsert > 1)
+                    {
+                        if (countDelete !== 0 && countInsert !== 0)
+                        {
+                            // Factor out any common prefixes.
+                            commonlength = parts.commonPrefix(textInsert, textDelete);
+                            if (commonlength !== 0)
+                            {
+                                if ((pointer - countDelete - countInsert) > 0 &&
+                                    (
+                                        diffs[pointer - countDelete - countInsert - 1][0]
+                                        === DiffOperation.DIFF_EQUAL
+                                    )
+                                )
+                                {
+                                    diffs[pointer - countDelete - countInsert - 1][1] = parts.concat(
+                                        diffs[pointer - countDelete - countInsert - 1][1],
+                                        parts.slice(textInsert, 0, commonlength)
+                                    );
+                                }
+                                else
+                                {
+                                    diffs.splice(
+                                        0,
+                                        0,
+                                        [DiffOperation.DIFF_EQUAL, parts.slice(textInsert, 0, commonlength)]
+                                    );
+                                    pointer++;
+                                }
+                                textInsert = parts.slice(textInsert, commonlength);
+                                textDelete = parts.slice(textDelete, commonlength);
+                            }
+                            // Factor out any common suffixes.
+                            commonlength = parts.commonSuffix(textInsert, textDelete);
+                            if (commonlength !== 0)
+                            {
+                                diffs[pointer][1] = parts.concat(
+                                    parts.slice(textInsert, textInsert.length - commonlength),
+                                    diffs[pointer][1]
+                                );
+                                textInsert = parts.slice(textInsert, 0, textInsert.length - commonlength);
+                                textDelete = parts.slice(textDelete, 0, textDelete.length - commonlength);
+                            }
+                        }
+                        // Replace the offending records by the merged ones, in
+                        // place as far as they go, long diffs have many of them.
+                        const merged: Array<[DiffOperation, S]> = [];
+                        if (textDelete.length)
+                        {
+                            merged.push([DiffOperation.DIFF_DELETE, textDelete]);
+                        }
+                        if (textInsert.length)
+                        {
+                            merged.push([DiffOperation.DIFF_INSERT, textInsert]);
+                        }
+                        pointer -= countDelete + countInsert;
+                        for (let x = 0; x < merged.length; x++)
+                        {
+                            if (x < countDelete + countInsert)
+                            {
+                                diffs[pointer + x] = merged[x];
+                            }
+                            else
+                            {
+                                diffs.splice(pointer + x, 0, merged[x]);
+                            }
+                        }
+                        if (merged.length < countDelete + countInsert)
+                        {
+                            diffs.splice(pointer + merged.length, countDelete + countInsert - merged.length);
+                        }
+                        pointer += merged.length + 1;
+                    }
+                    else if (pointer !== 0 && diffs[pointer - 1][0] === DiffOperation.DIFF_EQUAL)
+                    {
+                        // Merge this equality with the previous one.
+                        diffs[pointer - 1][1] = parts.concat(diffs[pointer - 1][1], diffs[pointer][1]);
+                        diffs.splice(pointer, 1);
+                    }
+                    else
+                    {
+                        pointer++;
+                    }
+                    countInsert = 0;
+                    countDelete = 0;
+                    textDelete = parts.empty;
+                    textInsert = parts.empty;
+                    break;
+            }
+        }
+        if (diffs[diffs.length - 1][1].length === 0)
+        {
+            diffs.pop(); // Remove the dummy entry at the end.
+        }
+
+        // Second pass: look for single edits surrounded on both sides by equalities
+        // which can be shifted sideways to eliminate an equality.
+        // e.g: A<ins>BA</ins>C -> <ins>AB</ins>AC
+        let changes = false;
+        pointer = 1;
+        // Intentionally ignore the first and last element (don't need checking).
+        while (pointer < diffs.length - 1)
+        {
+            if (diffs[pointer - 1][0] === DiffOperation.DIFF_EQUAL &&
+                diffs[pointer + 1][0] === DiffOperation.DIFF_EQUAL)
+            {
+                // This is a single edit surrounded by equalities.
+                const previous = diffs[pointer - 1][1];
+                const edit = diffs[pointer][1];
+                const next = diffs[pointer + 1][1];
+                if (parts.endsWith(edit, previous))
+                {
+                    // Shift the edit over the previous equality.
+                    diffs[pointer][1] = parts.concat(previous, parts.slice(edit, 0, edit.length - previous.length));
+                    diffs[pointer + 1][1] = parts.concat(previous, next);
+                    diffs.splice(pointer - 1, 1);
+                    changes = true;
+                }
+                else if (parts.startsWith(edit, next))
+                {
+                    // Shift the edit over the next equality.
+                    diffs[pointer - 1][1] = parts.concat(previous, next);
+                    diffs[pointer][1] = parts.concat(parts.slice(edit, next.length), next);
+                    diffs.splice(pointer + 1, 1);
+                    changes = true;
+                }
+            }
+            pointer++;
+        }
+        // If shifts were made, the diff needs reordering and another shift sweep.
+        if (changes)
+        {
+            this.diff_cleanupMergeParts_(diffs, parts);
+        }
+    }
+
+    /**
+     * Determine if the suffix of one string is the prefix of another.
+     *
+     * @private
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @returns {number} The number of characters common to the end of the first
+     * string and the start of the second string.
+     */
+    private diff_commonOverlap_(text1: string, text2: string): number
+    {
+        // Cache the text lengths to prevent multiple calls.
+        const text1Length = text1.length;
+        const text2Length = text2.length;
+        // Eliminate the null case.
+        if (text1Length === 0 || text2Length === 0)
+        {
+            return 0;
+        }
+        // Truncate the longer string.
+        if (text1Length > text2Length)
+        {
+            text1 = text1.substring(text1Length - text2Length);
+        }
+        else if (text1Length < text2Length)
+        {
+            text2 = text2.substring(0, text1Length);
+        }
+        const textLength = math.min(text1Length, text2Length);
+        // Quick check for the worst case.
+        if (text1 === text2)
+        {
+            return textLength;
+        }
+
+        // Start by looking for a single character match
+        // and increase length until no match is found.
+        // Performance analysis: https://neil.fraser.name/news/2010/11/04/
+        let best = 0;
+        let length = 1;
+        while (true)
+        {
+            const pattern = text1.substring(textLength - length);
+            const found = text2.indexOf(pattern);
+            if (found === -1)
+            {
+                return best;
+            }
+            length += found;
+            if (found === 0 ||
+                text1.substring(textLength - length) === text2.substring(0, length))
+            {
+                best = length;
+                length++;
+            }
+        }
+    }
+
+    /**
+     * Determine if the suffix of one string is the prefix of another, unless
+     * that overlap would cut a word, grapheme or code token of diffGranularity.
+     *
+     * @private
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @returns {number} The number of characters common to the end of the first
+     * string and the start of the second string.
+     */
+    private diff_commonAtomicOverlap_(text1: string, text2: string): number
+    {
+        const length = this.diff_commonOverlap_(text1, text2);
+        if (this.diff_alignIndex_(text1, text1.length - length, false) !== text1.length - length ||
+            this.diff_alignIndex_(text2, length, false) !== length)
+        {
+            return 0;
+        }
+        return length;
+    }
+
+    /**
+     * Do the two texts share a substring which is at least half the length of the
+     * longer text?
+     * This speedup can produce non-minimal diffs.
+     *
+     * @private
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @returns {(HalfMatchArray | null)} Five element Array, containing the prefix of
+     * text1, the suffix of text1, the prefix of text2, the suffix of
+     * text2 and the common middle. Or null if there was no match.
+     */
+    private diff_halfMatch_(text1: string, text2: string): HalfMatchArray | null
+    {
+        if (this.diffTimeout <= 0 && this.diffStepBudget <= 0)
+        {
+            // Don't risk returning a non-optimal diff if we have unlimited time.
+            return null;
+        }
+        const longtext = text1.length > text2.length ? text1 : text2;
+        const shorttext = text1.length > text2.length ? text2 : text1;
+        if (longtext.length < 4 || shorttext.length * 2 < longtext.length)
+        {
+            return null; // Pointless.
+        }
+
+        // First check if the second quarter is the seed for a half-match.
+        const hm1 = this.diff_halfMatchI_(longtext, shorttext, Math.ceil(longtext.length / 4));
+        // Check again based on the third quarter.
+        const hm2 = this.diff_halfMatchI_(longtext, shorttext, Math.ceil(longtext.length / 2));
+        let hm: HalfMatchArray | null;
+        if (!hm1 && !hm2)
+        {
+            return null;
+        }
+        else if (!hm2)
+        {
+            hm = hm1!;
+        }
+        else if (!hm1)
+        {
+            hm = hm2;
+        }
+        else
+        {
+            // Both matched. Select the longest.
+            hm = hm1[4].length > hm2[4].length ? hm1 : hm2;
+        }
+
+        // A half-match was found, sort out the return data.
+        let text1A: string;
+        let text1B: string;
+        let text2A: string;
+        let text2B: string;
+        const midCommon: string = hm[4];
+        if (text1.length > text2.length)
+        {
+            text1A = hm[0];
+            text1B = hm[1];
+            text2A = hm[2];
+            text2B = hm[3];
+        }
+        else
+        {
+            text2A = hm[0];
+            text2B = hm[1];
+            text1A = hm[2];
+            text1B = hm[3];
+        }
+        return [text1A, text1B, text2A, text2B, midCommon];
+    }
+
+    /**
+     * Does a substring of shorttext exist within longtext such that the substring
+     * is at least half the length of longtext?
+     * Closure, but does not reference any external variables.
+     *
+     * @private
+     * @param {string} longtext Longer string.
+     * @param {string} shorttext Shorter string.
+     * @param {number} i Start index of quarter length substring within longtext.
+     * @returns {(HalfMatchArray | null)} Five element Array, containing the prefix of
+     * longtext, the suffix of longtext, the prefix of shorttext, the suffix
+     * of shorttext and the common middle. Or null if there was no match.
+     */
+    private diff_halfMatchI_(longtext: string, shorttext: string, i: number): HalfMatchArray | null
+    {
+        // Start with a 1/4 length substring at position i as a seed.
+        const seed = longtext.substring(i, i + Math.floor(longtext.length / 4));
+        let bestCommon = "";
+        let bestLongtextA: string;
+        let bestLongtextB: string;
+        let bestShorttextA: string;
+        let bestShorttextB: string;
+
+        // Initial.
+        let j = shorttext.indexOf(seed, 0);
+        while (j !== -1)
+        {
+            const prefixLength = this.diff_commonPrefix_(
+                longtext.substring(i),
+                shorttext.substring(j),
+                true
+            );
+            const suffixLength = this.diff_commonSuffix_(
+                longtext.substring(0, i),
+                shorttext.substring(0, j),
+                true
+            );
+            if (bestCommon.length < suffixLength + prefixLength)
+            {
+                bestCommon = shorttext.substring(j - suffixLength, j)
+                    + shorttext.substring(j, j + prefixLength);
+                bestLongtextA = longtext.substring(0, i - suffixLength);
+                bestLongtextB = longtext.substring(i + prefixLength);
+                bestShorttextA = shorttext.substring(0, j - suffixLength);
+                bestShorttextB = shorttext.substring(j + prefixLength);
+            }
+
+            // Step.
+            j = shorttext.indexOf(seed, j + 1);
+        }
+
+        if (bestCommon.length * 2 >= longtext.length)
+        {
+            return [
+                bestLongtextA!,
+                bestLongtextB!,
+                bestShorttextA!,
+                bestShorttextB!,
+                bestCommon
+            ];
+        }
+        return null;
+    }
+
+    /**
+     * Drop the edits around an extracted overlap which the overlap swallowed
+     * entirely, merging the overlap into the equalities next to it, e.g:
+     * <del>xxx</del><ins>abcxxx</ins>1 -> <ins>abc</ins>xxx<del></del>1
+     *   -> <ins>abc</ins>xxx1
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {number} pointer Index of the extracted overlap.
+     * @returns {number} Index of the last remaining tuple of the three.
+     */
+    private diff_cleanupOverlapEdits_(diffs: Diff[], pointer: number): number
+    {
+        let last = pointer + 1;
+        if (!diffs[pointer + 1][1])
+        {
+            diffs.splice(pointer + 1, 1);
+            last = pointer;
+            if (pointer + 1 < diffs.length && diffs[pointer + 1][0] === DiffOperation.DIFF_EQUAL)
+            {
+                diffs[pointer][1] += diffs[pointer + 1][1];
+                diffs.splice(pointer + 1, 1);
+            }
+        }
+        if (!diffs[pointer - 1][1])
+        {
+            diffs.splice(pointer - 1, 1);
+            pointer--;
+            last--;
+            if (pointer > 0 && diffs[pointer - 1][0] === DiffOperation.DIFF_EQUAL)
+            {
+                diffs[pointer - 1][1] += diffs[pointer][1];
+                diffs.splice(pointer, 1);
+                last--;
+            }
+        }
+        return last;
+    }
+
+    /**
+     * Move the halves of surrogate pairs which were cut off into an equality
+     * back to the edits next to it, e.g: \uD83D<del>\uDE00</del><ins>\uDE01</ins>
+     *   -> <del>\uD83D\uDE00</del><ins>\uD83D\uDE01</ins>
+     * Lone surrogates of the texts themselves are left alone.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples.
+     */
+    private diff_cleanupSurrogates_(diffs: Diff[]): void
+    {
+        let pointer = 0;
+        while (pointer < diffs.length)
+        {
+            if (diffs[pointer][0] !== DiffOperation.DIFF_EQUAL)
+            {
+                pointer++;
+                continue;
+            }
+
+            // A leading low surrogate belongs to the end of the previous edits.
+            let equality = diffs[pointer][1];
+            if (pointer > 0 && this.diff_splitsSurrogate_("\uD800", equality))
+            {
+                const low = equality.charAt(0);
+                equality = equality.substring(1);
+                let lastDelete = -1;
+                let lastInsert = -1;
+                for (let x = pointer - 1; x >= 0 && diffs[x][0] !== DiffOperation.DIFF_EQUAL; x--)
+                {
+                    if (diffs[x][0] === DiffOperation.DIFF_DELETE && lastDelete === -1)
+                    {
+                        lastDelete = x;
+                    }
+                    else if (diffs[x][0] === DiffOperation.DIFF_INSERT && lastInsert === -1)
+                    {
+                        lastInsert = x;
+                    }
+                }
+                if (lastDelete === -1)
+                {
+                    diffs.splice(pointer++, 0, [DiffOperation.DIFF_DELETE, low]);
+                }
+                else
+                {
+                    diffs[lastDelete][1] += low;
+                }
+                if (lastInsert === -1)
+                {
+                    diffs.splice(pointer++, 0, [DiffOperation.DIFF_INSERT, low]);
+                }
+                else
+                {
+                    diffs[lastInsert][1] += low;
+                }
+            }
+
+            // A trailing high surrogate belongs to the start of the next edits.
+            if (pointer < diffs.length - 1 && this.diff_splitsSurrogate_(equality, "\uDC00"))
+            {
+                const high = equality.charAt(equality.length - 1);
+                equality = equality.substring(0, equality.length - 1);
+                let firstDelete = -1;
+                let firstInsert = -1;
+                for (let x = pointer + 1; x < diffs.length && diffs[x][0] !== DiffOperation.DIFF_EQUAL; x++)
+                {
+                    if (diffs[x][0] === DiffOperation.DIFF_DELETE && firstDelete === -1)
+                    {
+                        firstDelete = x;
+                    }
+                    else if (diffs[x][0] === DiffOperation.DIFF_INSERT && firstInsert === -1)
+                    {
+                        firstInsert = x;
+                    }
+                }
+                if (firstInsert === -1)
+                {
+                    diffs.splice(pointer + 1, 0, [DiffOperation.DIFF_INSERT, high]);
+                    firstDelete += firstDelete === -1 ? 0 : 1;
+                }
+                else
+                {
+                    diffs[firstInsert][1] = high + diffs[firstInsert][1];
+                }
+                if (firstDelete === -1)
+                {
+                    diffs.splice(pointer + 1, 0, [DiffOperation.DIFF_DELETE, high]);
+                }
+                else
+                {
+                    diffs[firstDelete][1] = high + diffs[firstDelete][1];
+                }
+            }
+
+            if (equality)
+            {
+                diffs[pointer++][1] = equality;
+            }
+            else
+            {
+                diffs.splice(pointer, 1);
+            }
+        }
+    }
+
+    /**
+     * Determine whether the boundary between two strings cuts a surrogate pair
+     * in half.
+     *
+     * @private
+     * @param {string} one First string.
+     * @param {string} two Second string.
+     * @returns {boolean} True if one ends with a high surrogate and two starts
+     * with a low surrogate.
+     */
+    private diff_splitsSurrogate_(one: string, two: string): boolean
+    {
+        const high = one.charCodeAt(one.length - 1);
+        const low = two.charCodeAt(0);
+        return high >= 0xD800 && high <= 0xDBFF && low >= 0xDC00 && low <= 0xDFFF;
+    }
+
+    /**
+     * Move an index of a text off the middle of a surrogate pair (surrogateSafe)
+     * or of a word, grapheme or code token (diffGranularity), otherwise leave it
+     * as it is. Tokens are only looked for in the line around the index, which
+     * keeps long texts fast.
+     *
+     * @private
+     * @param {string} text The text.
+     * @param {number} index Index into the text, clamped to its bounds.
+     * @param {boolean} forward True to move towards the end of the text.
+     * @param {boolean} [optCharacters] Optional flag to only keep the surrogate
+     * pairs whole, for the steps of diff_main which work on characters (or on
+     * tokens encoded as characters).
+     * @returns {number} The aligned index.
+     */
+    private diff_alignIndex_(text: string, index: number, forward: boolean, optCharacters?: boolean): number
+    {
+        index = math.max(0, math.min(index, text.length));
+        if (!optCharacters && this.diffGranularity !== DiffGranularity.DIFF_CHARACTER)
+        {
+            if (index === 0 || text.charAt(index - 1) === "\n")
+            {
+                return index;
+            }
+            const lineStart = text.lastIndexOf("\n", index - 1) + 1;
+            const lineEnd = text.indexOf("\n", index);
+            const boundaries = this.diff_tokenBoundaries_(
+                text.substring(lineStart, lineEnd === -1 ? text.length : lineEnd + 1)
+            );
+            while (!boundaries[index - lineStart])
+            {
+                index += forward ? 1 : -1;
+            }
+        }
+        else if (this.surrogateSafe &&
+            this.diff_splitsSurrogate_(text.charAt(index - 1), text.charAt(index)))
+        {
+            index += forward ? 1 : -1;
+        }
+        return index;
+    }
+
+    /**
+     * Determine whether splitting a text into three parts keeps the surrogate
+     * pairs (surrogateSafe) or the tokens of diffGranularity whole.
+     *
+     * @private
+     * @param {string} one First part.
+     * @param {string} two Second part.
+     * @param {string} three Third part.
+     * @param {boolean[] | null} boundaries The token boundaries of the whole
+     * text, see diff_tokenBoundaries_. Null in DIFF_CHARACTER.
+     * @returns {boolean} True if nothing is cut.
+     */
+    private diff_isAtomicSplit_(one: string, two: string, three: string, boundaries: boolean[] | null): boolean
+    {
+        if (boundaries)
+        {
+            return boundaries[one.length] && boundaries[one.length + two.length];
+        }
+        return !this.surrogateSafe ||
+            (!this.diff_splitsSurrogate_(one, two) && !this.diff_splitsSurrogate_(two, three));
+    }
+
+    /**
+     * Mark the offsets of a text at which a word, grapheme or code token of
+     * diffGranularity starts or ends.
+     *
+     * @private
+     * @param {string} text The text.
+     * @returns {boolean[]} True at every offset between two tokens,
+     * including 0 and the length of the text.
+     */
+    private diff_tokenBoundaries_(text: string): boolean[]
+    {
+        const boundaries: boolean[] = [true];
+        const tokens = this.diff_granularTokens_(text);
+        let offset = 0;
+        for (let x = 0; x < tokens.length; x++)
+        {
+            offset += tokens[x].length;
+            boundaries[offset] = true;
+        }
+        return boundaries;
+    }
+
+    /**
+     * Reduce a text split into tokens (words, graphemes or code tokens) to a
+     * string of hashes where each Unicode character represents one token.
+     * Modifies tokenArray and tokenHash through being a closure.
+     *
+     * @private
+     * @param {string[]} tokens Tokens of the string to encode.
+     * @param {string[]} tokenArray Array of unique tokens.
+     * @param {Record<string, number>} tokenHash Map of tokens to indices.
+     * @param {number} maxTokens Maximum length of tokenArray.
+     * @returns {string} Encoded string.
+     */
+    private diff_tokensToCharsMunge_(
+        tokens: string[],
+        tokenArray: string[],
+        tokenHash: Record<string, number>,
+        maxTokens: number
+    ): string
+    {
+        let chars = "";
+        // Keeping our own length variable is faster than looking it up.
+        let tokenArrayLength = tokenArray.length;
+        for (let x = 0; x < tokens.length; x++)
+        {
+            let token = tokens[x];
+            if (tokenHash.hasOwnProperty(token))
+            {
+                chars += String.fromCharCode(tokenHash[token]);
+            }
+            else
+            {
+                if (tokenArrayLength === maxTokens)
+                {
+                    // Bail out at 65535 because
+                    // String.fromCharCode(65536) == String.fromCharCode(0)
+                    token = tokens.slice(x).join("");
+                    x = tokens.length;
+                }
+                chars += String.fromCharCode(tokenArrayLength);
+                tokenHash[token] = tokenArrayLength;
+                tokenArray[tokenArrayLength++] = token;
+            }
+        }
+        return chars;
+    }
+
+    /**
+     * Normalize a text as diffIgnoreCase, diffIgnoreWhitespace and
+     * diffIgnoreLineEndings ask for, remembering where each normalized
+     * character came from.
+     *
+     * @private
+     * @param {string} text String to normalize.
+     * @returns {{text: string, starts: number[]}} The normalized string, and the
+     * offset in the original text of each of its characters, followed by the
+     * length of the original text.
+     */
+    private diff_normalize_(text: string): { text: string; starts: number[] }
+    {
+        let normalized = "";
+        const starts: number[] = [];
+        let pointer = 0;
+        while (pointer < text.length)
+        {
+            starts.push(pointer);
+            let char = text.charAt(pointer++);
+            if (this.diffIgnoreLineEndings && char === "\r")
+            {
+                char = "\n";
+                if (text.charAt(pointer) === "\n")
+                {
+                    pointer++;
+                }
+            }
+            else if (this.diffIgnoreWhitespace && WHITESPACE_REGEX.test(char) && !LINEBREAK_REGEX.test(char))
+            {
+                char = " ";
+                while (
+                    pointer < text.length
+                    && WHITESPACE_REGEX.test(text.charAt(pointer))
+                    && !LINEBREAK_REGEX.test(text.charAt(pointer))
+                )
+                {
+                    pointer++;
+                }
+            }
+            else if (this.diffIgnoreCase)
+            {
+                // Keep the characters whose lower case takes more (or fewer)
+                // code units, such as the dotted capital I.
+                const lower = char.toLowerCase();
+                if (lower.length === 1)
+                {
+                    char = lower;
+                }
+            }
+            normalized += char;
+        }
+        starts.push(text.length);
+        return { text: normalized, starts };
+    }
+
+    /**
+     * Map a diff of two normalized texts back onto the original texts, see
+     * diff_normalize_. Equalities whose originals differ become the smallest
+     * edits that still rebuild both texts, without splitting the words or
+     * graphemes of diffGranularity.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples of the normalized texts.
+     * @param {string} text1 Original old string.
+     * @param {string} text2 Original new string.
+     * @param {number[]} starts1 Offsets of the normalized old text.
+     * @param {number[]} starts2 Offsets of the normalized new text.
+     * @returns {Diff[]} Array of diff tuples of the original texts.
+     */
+    private diff_denormalize_(
+        diffs: Diff[],
+        text1: string,
+        text2: string,
+        starts1: number[],
+        starts2: number[]
+    ): Diff[]
+    {
+        const result: Diff[] = [];
+        let textEqual = "";
+        let textDelete = "";
+        let textInsert = "";
+        // Merge neighbouring edits as diff_cleanupMerge would, but without
+        // factoring out their common prefixes and suffixes.
+        const flush = (equal: boolean) =>
+        {
+            if (equal && (textDelete || textInsert))
+            {
+                if (textDelete)
+                {
+                    result.push([DiffOperation.DIFF_DELETE, textDelete]);
+                }
+                if (textInsert)
+                {
+                    result.push([DiffOperation.DIFF_INSERT, textInsert]);
+                }
+                textDelete = "";
+                textInsert = "";
+            }
+            if (!equal && textEqual)
+            {
+                result.push([DiffOperation.DIFF_EQUAL, textEqual]);
+                textEqual = "";
+            }
+        };
+
+        let index1 = 0;
+        let index2 = 0;
+        for (let x = 0; x < diffs.length; x++)
+        {
+            const text = diffs[x][1];
+            switch (diffs[x][0])
+            {
+                case DiffOperation.DIFF_DELETE:
+                    flush(false);
+                    textDelete += text1.substring(starts1[index1], starts1[index1 + text.length]);
+                    index1 += text.length;
+                    break;
+                case DiffOperation.DIFF_INSERT:
+                    flush(false);
+                    textInsert += text2.substring(starts2[index2], starts2[index2 + text.length]);
+                    index2 += text.length;
+                    break;
+                case DiffOperation.DIFF_EQUAL:
+                {
+                    const tokens = this.diff_granularTokens_(text);
+                    for (let i = 0; i < tokens.length; i++)
+                    {
+                        const length = tokens[i].length;
+                        const part1 = text1.substring(starts1[index1], starts1[index1 + length]);
+                        const part2 = text2.substring(starts2[index2], starts2[index2 + length]);
+                        index1 += length;
+                        index2 += length;
+                        // An ignored change keeps what it has in common equal,
+                        // unless that would split a word or grapheme.
+                        let prefixLength = 0;
+                        let suffixLength = 0;
+                        if (this.diffGranularity === DiffGranularity.DIFF_CHARACTER)
+                        {
+                            prefixLength = this.diff_commonPrefix(part1, part2);
+                            suffixLength = this.diff_commonSuffix(
+                                part1.substring(prefixLength),
+                                part2.substring(prefixLength)
+                            );
+                        }
+                        if (part1 === part2)
+                        {
+                            prefixLength = part1.length;
+                        }
+                        if (prefixLength)
+                        {
+                            flush(true);
+                            textEqual += part1.substring(0, prefixLength);
+                        }
+                        if (part1.length > prefixLength + suffixLength)
+                        {
+                            flush(false);
+                            textDelete += part1.substring(prefixLength, part1.length - suffixLength);
+                        }
+                        if (part2.length > prefixLength + suffixLength)
+                        {
+                            flush(false);
+                            textInsert += part2.substring(prefixLength, part2.length - suffixLength);
+                        }
+                        if (suffixLength)
+                        {
+                            flush(true);
+                            textEqual += part1.substring(part1.length - suffixLength);
+                        }
+                    }
+                    break;
+                }
+            }
+        }
+        flush(true);
+        flush(false);
+        return result;
+    }
+
+    /**
+     * Split a text into the atomic units of diffGranularity.
      *
      * @private
-     * @param {string} text1 Old string to be diffed.
-     * @param {string} text2 New string to be diffed.
-     * @param {number} x Index of split point in text1.
-     * @param {number} y Index of split point in text2.
-     * @param {number} deadline Time at which to bail if not yet complete.
-     * @returns {Diff[]} Array of diff tuples.
+     * @param {string} text String to split.
+     * @returns {string[]} Characters, words, graphemes or code tokens of the text.
      */
-    private diff_bisectSplit_(
-        text1: string,
-        text2: string,
-        x: number,
-        y: number,
-        deadline: number
-    ): Diff[]
+    private diff_granularTokens_(text: string): string[]
     {
-        const text1A = text1.substring(0, x);
-        const text2A = text2.substring(0, y);
-        const text1B = text1.substring(x);
-        const text2B = text2.substring(y);
-
-        // Compute both diffs serially.
-        const diffsA = this.diff_main(text1A, text2A, false, deadline);
-        const diffsB = this.diff_main(text1B, text2B, false, deadline);
+        switch (this.diffGranularity)
+        {
+            case DiffGranularity.DIFF_WORD:
+                return this.diff_wordTokens_(text);
+            case DiffGranularity.DIFF_GRAPHEME:
+                return unicode.graphemes(text);
+            case DiffGranularity.DIFF_CODE:
+                return this.diff_codeTokens_(text);
+            default:
+                return text.split("");
+        }
+    }
 
-        return diffsA.concat(diffsB);
+    /**
+     * Given two strings, compute a score representing whether the internal
+     * boundary falls on logical boundaries, with diffBoundaryScorer.
+     *
+     * @private
+     * @param {string} one First string.
+     * @param {string} two Second string.
+     * @returns {number} The score.
+     */
+    private diff_cleanupSemanticScore_(one: string, two: string): number
+    {
+        return this.diffBoundaryScorer === null
+            ? this.diff_boundaryScore(one, two)
+            : this.diffBoundaryScorer(one, two);
     }
 
     /**
-     * Split a text into an array of strings. Reduce the texts to a string of
-     * hashes where each Unicode character represents one line.
-     * Modifies linearray and linehash through being a closure.
+     * Find the characters of each line of a text which a diff changed.
      *
      * @private
-     * @param {string} text String to encode.
-     * @param {string[]} lineArray Array of unique strings.
-     * @param {Record<string, number>} lineHash Line-hash pairs.
-     * @param {number} maxLines
-     * @returns {string} Encoded string.
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {string[]} lines Lines of the old or the new text of the diff.
+     * @param {DiffOperation} op DIFF_DELETE for the old text, DIFF_INSERT for
+     * the new one.
+     * @returns {DiffRange[][]} The changed ranges of each line, line breaks
+     * excluded.
      */
-    private diff_linesToCharsMunge_(
-        text: string,
-        lineArray: string[],
-        lineHash: Record<string, number>,
-        maxLines: number
-    ): string
+    private diff_lineRanges_(diffs: Diff[], lines: string[], op: DiffOperation): DiffRange[][]
     {
-        let chars = "";
-        // Walk the text, pulling out a substring for each line.
-        // text.split('\n') would would temporarily double our memory footprint.
-        // Modifying text would create many large strings to garbage collect.
+        const ranges: DiffRange[][] = [];
+        for (let x = 0; x < lines.length; x++)
+        {
+            ranges.push([]);
+        }
+        let line = 0;
         let lineStart = 0;
-        let lineEnd = -1;
-        // Keeping our own length variable is faster than looking it up.
-        let lineArrayLength = lineArray.length;
-        while (lineEnd < text.length - 1)
+        let pointer = 0;
+        for (let x = 0; x < diffs.length; x++)
         {
-            lineEnd = text.indexOf("\n", lineStart);
-            if (lineEnd === -1)
-            {
-                lineEnd = text.length - 1;
-            }
-            let line = text.substring(lineStart, lineEnd + 1);
-
-            if (lineHash.hasOwnProperty
-                ? lineHash.hasOwnProperty(line)
-                : (lineHash[line] !== undefined))
+            if (diffs[x][0] !== op && diffs[x][0] !== DiffOperation.DIFF_EQUAL)
             {
-                chars += String.fromCharCode(lineHash[line]);
+                // Not part of this text.
+                continue;
             }
-            else
+            const end = pointer + diffs[x][1].length;
+            while (diffs[x][0] === op && pointer < end)
             {
-                if (lineArrayLength === maxLines)
+                while (lineStart + lines[line].length <= pointer)
                 {
-                    // Bail out at 65535 because
-                    // String.fromCharCode(65536) == String.fromCharCode(0)
-                    line = text.substring(lineStart);
-                    lineEnd = text.length;
+                    lineStart += lines[line++].length;
                 }
-                chars += String.fromCharCode(lineArrayLength);
-                lineHash[line] = lineArrayLength;
-                lineArray[lineArrayLength++] = line;
+                const lineEnd = lineStart + lines[line].length;
+                const textEnd = math.min(math.min(end, lineEnd), lineStart + this.diff_lineLength_(lines[line]));
+                if (textEnd > pointer)
+                {
+                    ranges[line].push({ start: pointer - lineStart, length: textEnd - pointer });
+                }
+                pointer = math.min(end, lineEnd);
             }
-            lineStart = lineEnd + 1;
+            pointer = end;
         }
-        return chars;
+        return ranges;
     }
 
     /**
-     * Determine if the suffix of one string is the prefix of another.
+     * Describe a line of a text for diff_toRows.
      *
      * @private
-     * @param {string} text1 First string.
-     * @param {string} text2 Second string.
-     * @returns {number} The number of characters common to the end of the first
-     * string and the start of the second string.
+     * @param {string[]} lines Lines of the text.
+     * @param {DiffRange[][]} ranges The changed ranges of each line.
+     * @param {number} index Index of the line.
+     * @returns {DiffLine} The 1-based line number, text and changed ranges.
      */
-    private diff_commonOverlap_(text1: string, text2: string): number
+    private diff_line_(lines: string[], ranges: DiffRange[][], index: number): DiffLine
     {
-        // Cache the text lengths to prevent multiple calls.
-        const text1Length = text1.length;
-        const text2Length = text2.length;
-        // Eliminate the null case.
-        if (text1Length === 0 || text2Length === 0)
-        {
-            return 0;
-        }
-        // Truncate the longer string.
-        if (text1Length > text2Length)
-        {
-            text1 = text1.substring(text1Length - text2Length);
-        }
-        else if (text1Length < text2Length)
-        {
-            text2 = text2.substring(0, text1Length);
-        }
-        const textLength = math.min(text1Length, text2Length);
-        // Quick check for the worst case.
-        if (text1 === text2)
-        {
-            return textLength;
-        }
+        return {
+            line: index + 1,
+            text: lines[index].substring(0, this.diff_lineLength_(lines[index])),
+            ranges: ranges[index]
+        };
+    }
 
-        // Start by looking for a single character match
-        // and increase length until no match is found.
-        // Performance analysis: https://neil.fraser.name/news/2010/11/04/
-        let best = 0;
-        let length = 1;
-        while (true)
+    /**
+     * Compute the length of a line without its line break ("\n" or "\r\n").
+     *
+     * @private
+     * @param {string} line Line of text.
+     * @returns {number} Length of the line.
+     */
+    private diff_lineLength_(line: string): number
+    {
+        if (line.charAt(line.length - 1) !== "\n")
         {
-            const pattern = text1.substring(textLength - length);
-            const found = text2.indexOf(pattern);
-            if (found === -1)
-            {
-                return best;
-            }
-            length += found;
-            if (found === 0 ||
-                text1.substring(textLength - length) === text2.substring(0, length))
-            {
-                best = length;
-                length++;
-            }
+            return line.length;
         }
+        return line.charAt(line.length - 2) === "\r" ? line.length - 2 : line.length - 1;
     }
 
     /**
-     * Do the two texts share a substring which is at least half the length of the
-     * longer text?
-     * This speedup can produce non-minimal diffs.
+     * Escape the special characters of HTML.
      *
      * @private
-     * @param {string} text1 First string.
-     * @param {string} text2 Second string.
-     * @returns {(HalfMatchArray | null)} Five element Array, containing the prefix of
-     * text1, the suffix of text1, the prefix of text2, the suffix of
-     * text2 and the common middle. Or null if there was no match.
+     * @param {string} text Text to escape.
+     * @param {boolean} [optAttribute] Whether the text is an attribute value,
+     * to escape quotes as well.
+     * @returns {string} Escaped text.
      */
-    private diff_halfMatch_(text1: string, text2: string): HalfMatchArray | null
+    private diff_escapeHtml_(text: string, optAttribute?: boolean): string
     {
-        if (this.diffTimeout <= 0)
-        {
-            // Don't risk returning a non-optimal diff if we have unlimited time.
-            return null;
-        }
-        const longtext = text1.length > text2.length ? text1 : text2;
-        const shorttext = text1.length > text2.length ? text2 : text1;
-        if (longtext.length < 4 || shorttext.length * 2 < longtext.length)
+        text = text.replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;");
+        if (optAttribute)
         {
-            return null; // Pointless.
+            text = text.replace(/"/g, "&quot;").replace(/'/g, "&#39;");
         }
+        return text;
+    }
 
-        // First check if the second quarter is the seed for a half-match.
-        const hm1 = this.diff_halfMatchI_(longtext, shorttext, Math.ceil(longtext.length / 4));
-        // Check again based on the third quarter.
-        const hm2 = this.diff_halfMatchI_(longtext, shorttext, Math.ceil(longtext.length / 2));
-        let hm: HalfMatchArray | null;
-        if (!hm1 && !hm2)
-        {
-            return null;
-        }
-        else if (!hm2)
-        {
-            hm = hm1!;
-        }
-        else if (!hm1)
+    /**
+     * Wrap HTML in an element, see diff_toHtml.
+     *
+     * @private
+     * @param {string} html HTML to wrap.
+     * @param {string} tag Name of the element, empty to leave the HTML as is.
+     * @param {string} [className] Optional class of the element.
+     * @param {Object} [attributes] Optional other attributes of the element.
+     * @returns {string} The element.
+     * @throws {Error} If the tag or an attribute name is invalid.
+     */
+    private diff_wrapHtml_(
+        html: string,
+        tag: string,
+        className?: string,
+        attributes?: Record<string, string>
+    ): string
+    {
+        if (!tag)
         {
-            hm = hm2;
+            return html;
         }
-        else
+        const namePattern = /^[a-zA-Z][\w:.-]*$/;
+        if (!namePattern.test(tag))
         {
-            // Both matched. Select the longest.
-            hm = hm1[4].length > hm2[4].length ? hm1 : hm2;
+            throw new Error("Invalid tag name: " + tag);
         }
-
-        // A half-match was found, sort out the return data.
-        let text1A: string;
-        let text1B: string;
-        let text2A: string;
-        let text2B: string;
-        const midCommon: string = hm[4];
-        if (text1.length > text2.length)
+        const open = [tag];
+        if (className)
         {
-            text1A = hm[0];
-            text1B = hm[1];
-            text2A = hm[2];
-            text2B = hm[3];
+            open.push('class="' + this.diff_escapeHtml_(className, true) + '"');
         }
-        else
+        if (attributes)
         {
-            text2A = hm[0];
-            text2B = hm[1];
-            text1A = hm[2];
-            text1B = hm[3];
+            const names = Object.keys(attributes);
+            for (let x = 0; x < names.length; x++)
+            {
+                if (!namePattern.test(names[x]))
+                {
+                    throw new Error("Invalid attribute name: " + names[x]);
+                }
+                open.push(names[x] + '="' + this.diff_escapeHtml_(attributes[names[x]], true) + '"');
+            }
         }
-        return [text1A, text1B, text2A, text2B, midCommon];
+        return "<" + open.join(" ") + ">" + html + "</" + tag + ">";
     }
 
     /**
-     * Does a substring of shorttext exist within longtext such that the substring
-     * is at least half the length of longtext?
-     * Closure, but does not reference any external variables.
+     * Convert a diff array into text for a terminal, see diff_toAnsi, numbering
+     * its lines from the given ones.
+     * The old number of a line only inserted and the new number of a line only
+     * deleted are left blank.
      *
      * @private
-     * @param {string} longtext Longer string.
-     * @param {string} shorttext Shorter string.
-     * @param {number} i Start index of quarter length substring within longtext.
-     * @returns {(HalfMatchArray | null)} Five element Array, containing the prefix of
-     * longtext, the suffix of longtext, the prefix of shorttext, the suffix
-     * of shorttext and the common middle. Or null if there was no match.
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {DiffAnsiOptions} options Colors, line numbers and visible whitespace.
+     * @param {number} line1 Number of the first line in the old text.
+     * @param {number} line2 Number of the first line in the new text.
+     * @param {number} width Width to pad the line numbers to.
+     * @returns {string} Terminal representation.
      */
-    private diff_halfMatchI_(longtext: string, shorttext: string, i: number): HalfMatchArray | null
+    private diff_toAnsiLines_(
+        diffs: Diff[],
+        options: DiffAnsiOptions,
+        line1: number,
+        line2: number,
+        width: number
+    ): string
     {
-        // Start with a 1/4 length substring at position i as a seed.
-        const seed = longtext.substring(i, i + Math.floor(longtext.length / 4));
-        let bestCommon = "";
-        let bestLongtextA: string;
-        let bestLongtextB: string;
-        let bestShorttextA: string;
-        let bestShorttextB: string;
-
-        // Initial.
-        let j = shorttext.indexOf(seed, 0);
-        while (j !== -1)
+        const color = typeof options.color === "undefined" ? true : options.color;
+        const text: string[] = [];
+        // The parts of the current line, and whether it is in either text.
+        let row: string[] = [];
+        let inText1 = false;
+        let inText2 = false;
+        const flush = () =>
         {
-            const prefixLength = this.diff_commonPrefix(
-                longtext.substring(i),
-                shorttext.substring(j)
-            );
-            const suffixLength = this.diff_commonSuffix(
-                longtext.substring(0, i),
-                shorttext.substring(0, j)
-            );
-            if (bestCommon.length < suffixLength + prefixLength)
+            if (options.lineNumbers && row.length)
             {
-                bestCommon = shorttext.substring(j - suffixLength, j)
-                    + shorttext.substring(j, j + prefixLength);
-                bestLongtextA = longtext.substring(0, i - suffixLength);
-                bestLongtextB = longtext.substring(i + prefixLength);
-                bestShorttextA = shorttext.substring(0, j - suffixLength);
-                bestShorttextB = shorttext.substring(j + prefixLength);
+                text.push(
+                    this.diff_padStart_(inText1 ? String(line1) : "", width) + " "
+                    + this.diff_padStart_(inText2 ? String(line2) : "", width) + " | "
+                );
             }
-
-            // Step.
-            j = shorttext.indexOf(seed, j + 1);
-        }
-
-        if (bestCommon.length * 2 >= longtext.length)
+            for (let x = 0; x < row.length; x++)
+            {
+                text.push(row[x]);
+            }
+            row = [];
+            inText1 = false;
+            inText2 = false;
+        };
+        for (let x = 0; x < diffs.length; x++)
         {
-            return [
-                bestLongtextA!,
-                bestLongtextB!,
-                bestShorttextA!,
-                bestShorttextB!,
-                bestCommon
-            ];
+            const op = diffs[x][0];
+            const lines = this.patch_splitLines_(diffs[x][1]);
+            for (let y = 0; y < lines.length; y++)
+            {
+                const lineBreak = lines[y].charAt(lines[y].length - 1) === "\n";
+                let body = lineBreak ? lines[y].substring(0, lines[y].length - 1) : lines[y];
+                if (op !== DiffOperation.DIFF_EQUAL && options.whitespace)
+                {
+                    body = body.replace(/ /g, "\u00B7").replace(/\t/g, "\u2192") + (lineBreak ? "\u21B5" : "");
+                }
+                switch (op)
+                {
+                    case DiffOperation.DIFF_INSERT:
+                        row.push(color ? "\x1b[32m" + body + "\x1b[0m" : "{+" + body + "+}");
+                        inText2 = true;
+                        break;
+                    case DiffOperation.DIFF_DELETE:
+                        row.push(color ? "\x1b[31m" + body + "\x1b[0m" : "[-" + body + "-]");
+                        inText1 = true;
+                        break;
+                    case DiffOperation.DIFF_EQUAL:
+                        row.push(body);
+                        inText1 = true;
+                        inText2 = true;
+                        break;
+                }
+                if (lineBreak)
+                {
+                    row.push("\n");
+                    flush();
+                    line1 += op === DiffOperation.DIFF_INSERT ? 0 : 1;
+                    line2 += op === DiffOperation.DIFF_DELETE ? 0 : 1;
+                }
+            }
         }
-        return null;
+        flush();
+        return text.join("");
     }
 
     /**
-     * Given two strings, compute a score representing whether the internal
-     * boundary falls on logical boundaries.
-     * Scores range from 6 (best) to 0 (worst).
-     * Closure, but does not reference any external variables.
+     * Pad the start of a text with spaces.
      *
      * @private
-     * @param {string} one First string.
-     * @param {string} two Second string.
-     * @returns {number} The score.
+     * @param {string} text Text to pad.
+     * @param {number} length Length of the padded text.
+     * @returns {string} Padded text.
      */
-    private diff_cleanupSemanticScore_(one: string, two: string): number
+    private diff_padStart_(text: string, length: number): string
     {
-        if (!one || !two)
+        while (text.length < length)
         {
-            // Edges are the best.
-            return 6;
+            text = " " + text;
         }
+        return text;
+    }
 
-        // Each port of this function behaves slightly differently due to
-        // subtle differences in each language's definition of things like
-        // 'whitespace'. Since this function's purpose is largely cosmetic,
-        // the choice has been made to use each language's native features
-        // rather than force total conformity.
-        const char1 = one.charAt(one.length - 1);
-        const char2 = two.charAt(0);
-        const nonAlphaNumeric1 = char1.match(NON_ALPHA_NUMERIC_REGEX);
-        const nonAlphaNumeric2 = char2.match(NON_ALPHA_NUMERIC_REGEX);
-        const whitespace1 = nonAlphaNumeric1 && char1.match(WHITESPACE_REGEX);
-        const whitespace2 = nonAlphaNumeric2 && char2.match(WHITESPACE_REGEX);
-        const lineBreak1 = whitespace1 && char1.match(LINEBREAK_REGEX);
-        const lineBreak2 = whitespace2 && char2.match(LINEBREAK_REGEX);
-        const blankLine1 = lineBreak1 && one.match(BLANKLINE_END_REGEX);
-        const blankLine2 = lineBreak2 && two.match(BLANKLINE_START_REGEX);
-
-        if (blankLine1 || blankLine2)
-        {
-            // Five points for blank lines.
-            return 5;
-        }
-        else if (lineBreak1 || lineBreak2)
+    /**
+     * Count the matches of a pattern in a text which overlap changed ranges.
+     *
+     * @private
+     * @param {string} text Text to search.
+     * @param {number[][]} ranges The changed ranges of the text, in order.
+     * @param {RegExp} pattern Global pattern of the units to count, e.g. words.
+     * @returns {number} Number of matches which overlap a range.
+     */
+    private diff_countTouched_(text: string, ranges: number[][], pattern: RegExp): number
+    {
+        let count = 0;
+        let range = 0;
+        pattern.lastIndex = 0;
+        let match = pattern.exec(text);
+        while (range < ranges.length && match !== null)
         {
-            // Four points for line breaks.
-            return 4;
+            const end = match.index + match[0].length;
+            // Skip the ranges which end before the match.
+            while (range < ranges.length && ranges[range][1] <= match.index)
+            {
+                range++;
+            }
+            if (range < ranges.length && ranges[range][0] < end)
+            {
+                count++;
+            }
+            match = pattern.exec(text);
         }
-        else if (nonAlphaNumeric1 && !whitespace1 && whitespace2)
+        return count;
+    }
+
+    /**
+     * Compute the similarity of the texts of a diff: twice the number of equal
+     * characters divided by the total number of characters of both texts.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @returns {number} Similarity, from 1 (equal) down to 0.
+     */
+    private diff_ratio_(diffs: Diff[]): number
+    {
+        let equalities = 0;
+        let total = 0;
+        for (let x = 0; x < diffs.length; x++)
         {
-            // Three points for end of sentences.
-            return 3;
+            const length = diffs[x][1].length;
+            equalities += diffs[x][0] === DiffOperation.DIFF_EQUAL ? length : 0;
+            total += diffs[x][0] === DiffOperation.DIFF_EQUAL ? 2 * length : length;
         }
-        else if (whitespace1 || whitespace2)
+        return total === 0 ? 1 : 2 * equalities / total;
+    }
+
+    /**
+     * Find the Chinese and Japanese words of a text, see diff_cleanupSemanticCjk.
+     *
+     * @private
+     * @param {string} text String to split.
+     * @returns {{ starts: number[], ends: number[] }} For each offset, the
+     * start and the end of the word it falls within, or the offset itself if
+     * it is not within such a word.
+     */
+    private diff_cjkWords_(text: string): { starts: number[]; ends: number[] }
+    {
+        const starts: number[] = [];
+        const ends: number[] = [];
+        const words = unicode.words(text);
+        let wordStart = 0;
+        for (let x = 0; x < words.length; x++)
         {
-            // Two points for whitespace.
-            return 2;
+            const wordEnd = wordStart + words[x].length;
+            const cjk = CJK_REGEX.test(words[x]);
+            starts.push(wordStart);
+            ends.push(wordStart);
+            for (let i = wordStart + 1; i < wordEnd; i++)
+            {
+                starts.push(cjk ? wordStart : i);
+                ends.push(cjk ? wordEnd : i);
+            }
+            wordStart = wordEnd;
         }
-        else if (nonAlphaNumeric1 || nonAlphaNumeric2)
+        starts.push(text.length);
+        ends.push(text.length);
+        return { starts, ends };
+    }
+
+    /**
+     * Split source code into tokens with diffCodeTokenizer.
+     *
+     * @private
+     * @param {string} text String to split.
+     * @returns {string[]} Tokens of the text.
+     * @throws {Error} If the tokens do not rebuild the text.
+     */
+    private diff_codeTokens_(text: string): string[]
+    {
+        const tokens = this.diffCodeTokenizer === null
+            ? this.diff_codeTokens(text)
+            : this.diffCodeTokenizer(text);
+        if (tokens.join("") !== text)
         {
-            // One point for non-alphanumeric.
-            return 1;
+            throw new Error("Tokens do not rebuild the text. (diffCodeTokenizer)");
         }
-        return 0;
+        return tokens;
     }
     //#endregion DIFF FUNCTIONS (private)
 
@@ -2554,6 +6387,50 @@ export class DiffMatchPatch
         }
         return s;
     }
+
+    /**
+     * Count the occurrences of each character of a text.
+     *
+     * @private
+     * @param {string} text The text to count.
+     * @returns {Record<string, number>} Hash of character counts.
+     */
+    private match_charCounts_(text: string): Record<string, number>
+    {
+        const counts: Record<string, number> = {};
+        for (let i = 0; i < text.length; i++)
+        {
+            const char = text.charAt(i);
+            counts[char] = (counts.hasOwnProperty(char) ? counts[char] : 0) + 1;
+        }
+        return counts;
+    }
+
+    /**
+     * Count the characters which a text has in common with another, whatever
+     * their order: an upper bound of the equalities of their diff.
+     *
+     * @private
+     * @param {Record<string, number>} counts Character counts of the other text.
+     * @param {string} text The text to compare.
+     * @returns {number} Number of characters in common.
+     */
+    private match_commonChars_(counts: Record<string, number>, text: string): number
+    {
+        const used: Record<string, number> = {};
+        let common = 0;
+        for (let i = 0; i < text.length; i++)
+        {
+            const char = text.charAt(i);
+            const count = used.hasOwnProperty(char) ? used[char] : 0;
+            if (counts.hasOwnProperty(char) && count < counts[char])
+            {
+                common++;
+            }
+            used[char] = count + 1;
+        }
+        return common;
+    }
     //#endregion MATCH FUNCTIONS (private)
 
     //#region PATCH FUNCTIONS (private)
@@ -2592,17 +6469,18 @@ export class DiffMatchPatch
         // Add one chunk for good luck.
         padding += this.patchMargin;
 
+        // Grow the context rather than cut through a pair or a token.
+        const prefixStart = this.diff_alignIndex_(text, patch.start2 - padding, false);
+        const suffixEnd = this.diff_alignIndex_(text, patch.start2 + patch.length1 + padding, true);
+
         // Add the prefix.
-        const prefix = text.substring(patch.start2 - padding, patch.start2);
+        const prefix = text.substring(prefixStart, patch.start2);
         if (prefix)
         {
             patch.diffs.unshift([DiffOperation.DIFF_EQUAL, prefix]);
         }
         // Add the suffix.
-        const suffix = text.substring(
-            patch.start2 + patch.length1,
-            patch.start2 + patch.length1 + padding
-        );
+        const suffix = text.substring(patch.start2 + patch.length1, suffixEnd);
         if (suffix)
         {
             patch.diffs.push([DiffOperation.DIFF_EQUAL, suffix]);
@@ -2615,5 +6493,344 @@ export class DiffMatchPatch
         patch.length1 += prefix.length + suffix.length;
         patch.length2 += prefix.length + suffix.length;
     }
+
+    /**
+     * Split a text into lines, each with its line break.
+     *
+     * @private
+     * @param {string} text String to split.
+     * @returns {string[]} The lines, the last one may lack a line break.
+     */
+    private patch_splitLines_(text: string): string[]
+    {
+        const lines: string[] = [];
+        let lineStart = 0;
+        while (lineStart < text.length)
+        {
+            const lineEnd = text.indexOf("\n", lineStart);
+            const line = text.substring(lineStart, lineEnd === -1 ? text.length : lineEnd + 1);
+            lines.push(line);
+            lineStart += line.length;
+        }
+        return lines;
+    }
+
+    /**
+     * Find the lines which a diff leaves untouched: whole lines of both texts
+     * within the same equality.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @returns {number[][]} The indices of each untouched line in both texts,
+     * e.g. [[0, 0], [2, 1]].
+     */
+    private patch_unchangedLines_(diffs: Diff[]): number[][]
+    {
+        const matches: number[][] = [];
+        let line1 = 0;
+        let line2 = 0;
+        // Whether the texts are at the start of a line.
+        let lineStart1 = true;
+        let lineStart2 = true;
+        for (let x = 0; x < diffs.length; x++)
+        {
+            const text = diffs[x][1];
+            if (!text)
+            {
+                continue;
+            }
+            const lineBreaks = text.split("\n").length - 1;
+            const lineEnd = text.charAt(text.length - 1) === "\n";
+            switch (diffs[x][0])
+            {
+                case DiffOperation.DIFF_DELETE:
+                    line1 += lineBreaks;
+                    lineStart1 = lineEnd;
+                    break;
+                case DiffOperation.DIFF_INSERT:
+                    line2 += lineBreaks;
+                    lineStart2 = lineEnd;
+                    break;
+                case DiffOperation.DIFF_EQUAL:
+                {
+                    let lineStart = lineStart1 && lineStart2;
+                    let pointer = 0;
+                    while (pointer < text.length)
+                    {
+                        const lineBreak = text.indexOf("\n", pointer);
+                        // A last line without a line break is untouched only
+                        // if both texts end with it.
+                        if (lineStart && (lineBreak !== -1 || this.patch_isLastEquality_(diffs, x)))
+                        {
+                            matches.push([line1, line2]);
+                        }
+                        if (lineBreak === -1)
+                        {
+                            break;
+                        }
+                        line1++;
+                        line2++;
+                        lineStart = true;
+                        pointer = lineBreak + 1;
+                    }
+                    lineStart1 = lineEnd;
+                    lineStart2 = lineEnd;
+                    break;
+                }
+            }
+        }
+        return matches;
+    }
+
+    /**
+     * Whether nothing but empty tuples follow a diff tuple.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {number} index Index of the tuple.
+     * @returns {boolean} True if the tuple ends both texts.
+     */
+    private patch_isLastEquality_(diffs: Diff[], index: number): boolean
+    {
+        for (let x = index + 1; x < diffs.length; x++)
+        {
+            if (diffs[x][1])
+            {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Format the range of a hunk of a unified diff, e.g. "3,4".
+     *
+     * @private
+     * @param {number} start Index of the first line of the hunk.
+     * @param {number} length Number of lines of the hunk.
+     * @returns {string} The 1-based range, of the line before an empty hunk.
+     */
+    private patch_unifiedRange_(start: number, length: number): string
+    {
+        if (length === 0)
+        {
+            return start + ",0";
+        }
+        if (length === 1)
+        {
+            return String(start + 1);
+        }
+        return (start + 1) + "," + length;
+    }
     //#endregion PATCH FUNCTIONS (private)
+
+    //#region MERGE FUNCTIONS (private)
+    /**
+     * Turn a diff of the base against one side into the edits of that side.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples of the base against the side.
+     * @param {number} side 0 for ours, 1 for theirs.
+     * @returns {MergeHunk[]} The edits, in order.
+     */
+    private merge_hunks_(diffs: Diff[], side: number): MergeHunk[]
+    {
+        const hunks: MergeHunk[] = [];
+        let hunk: MergeHunk | null = null;
+        let pointer = 0;
+        for (let x = 0; x < diffs.length; x++)
+        {
+            const text = diffs[x][1];
+            if (diffs[x][0] === DiffOperation.DIFF_EQUAL)
+            {
+                hunk = null;
+                pointer += text.length;
+                continue;
+            }
+            if (hunk === null)
+            {
+                hunk = { start: pointer, end: pointer, text: "", side };
+                hunks.push(hunk);
+            }
+            if (diffs[x][0] === DiffOperation.DIFF_DELETE)
+            {
+                pointer += text.length;
+                hunk.end = pointer;
+            }
+            else
+            {
+                hunk.text += text;
+            }
+        }
+        return hunks;
+    }
+
+    /**
+     * Apply the edits of one side to a region of the base.
+     *
+     * @private
+     * @param {string} base Common ancestor of both texts.
+     * @param {MergeHunk[]} hunks The edits of both sides in the region, in order.
+     * @param {number} side 0 for ours, 1 for theirs.
+     * @param {number} start Start of the region in the base.
+     * @param {number} end End of the region in the base.
+     * @returns {string} The region as the side has it.
+     */
+    private merge_apply_(base: string, hunks: MergeHunk[], side: number, start: number, end: number): string
+    {
+        let text = "";
+        let pointer = start;
+        for (let x = 0; x < hunks.length; x++)
+        {
+            if (hunks[x].side === side)
+            {
+                text += base.substring(pointer, hunks[x].start) + hunks[x].text;
+                pointer = hunks[x].end;
+            }
+        }
+        return text + base.substring(pointer, end);
+    }
+
+    /**
+     * Add a region to a merge, joining neighbouring clean regions.
+     *
+     * @private
+     * @param {MergeResult} result The merge to add to.
+     * @param {boolean} conflict Whether the region conflicts.
+     * @param {string} text The merged text of a clean region.
+     * @param {string} base The region of the base.
+     * @param {string} ours The region of our text.
+     * @param {string} theirs The region of their text.
+     */
+    private merge_pushRegion_(
+        result: MergeResult,
+        conflict: boolean,
+        text: string,
+        base: string,
+        ours: string,
+        theirs: string
+    ): void
+    {
+        const last = result.regions.length ? result.regions[result.regions.length - 1] : null;
+        if (!conflict && !base && !ours && !theirs)
+        {
+            // Nothing to add.
+            return;
+        }
+        if (!conflict && last !== null && !last.conflict)
+        {
+            last.text += text;
+            last.base += base;
+            last.ours += ours;
+            last.theirs += theirs;
+            return;
+        }
+        result.regions.push({ conflict, text, base, ours, theirs });
+        result.conflict = result.conflict || conflict;
+    }
+
+    /**
+     * Widen the conflicts of a merge to whole lines, taking the rest of their
+     * lines from the clean regions around them.
+     *
+     * @private
+     * @param {MergeRegion[]} regions The regions of the merge.
+     * @returns {MergeRegion[]} New regions, conflicts start and end on lines.
+     */
+    private merge_toLines_(regions: MergeRegion[]): MergeRegion[]
+    {
+        const sides: Array<"base" | "ours" | "theirs"> = ["base", "ours", "theirs"];
+        const lines: MergeRegion[] = [];
+        for (let x = 0; x < regions.length; x++)
+        {
+            const region: MergeRegion = {
+                conflict: regions[x].conflict,
+                text: regions[x].text,
+                base: regions[x].base,
+                ours: regions[x].ours,
+                theirs: regions[x].theirs
+            };
+            const last = lines.length ? lines[lines.length - 1] : null;
+            if (last === null)
+            {
+                lines.push(region);
+            }
+            else if (region.conflict && last.conflict)
+            {
+                // Conflicts on the same line are one conflict.
+                for (let i = 0; i < sides.length; i++)
+                {
+                    last[sides[i]] += region[sides[i]];
+                }
+            }
+            else if (region.conflict)
+            {
+                // Start the conflict at the start of its line.
+                for (let i = 0; i < sides.length; i++)
+                {
+                    const cut = last[sides[i]].lastIndexOf("\n") + 1;
+                    region[sides[i]] = last[sides[i]].substring(cut) + region[sides[i]];
+                    last[sides[i]] = last[sides[i]].substring(0, cut);
+                }
+                last.text = last.text.substring(0, last.text.lastIndexOf("\n") + 1);
+                if (!last.base && !last.ours && !last.theirs)
+                {
+                    lines.pop();
+                }
+                lines.push(region);
+            }
+            else if (
+                !this.merge_atLineEnd_(last.base)
+                || !this.merge_atLineEnd_(last.ours)
+                || !this.merge_atLineEnd_(last.theirs)
+            )
+            {
+                // End the conflict at the end of its line.
+                for (let i = 0; i < sides.length; i++)
+                {
+                    const cut = region[sides[i]].indexOf("\n") + 1;
+                    const head = cut ? region[sides[i]].substring(0, cut) : region[sides[i]];
+                    last[sides[i]] += head;
+                    region[sides[i]] = region[sides[i]].substring(head.length);
+                }
+                const cut = region.text.indexOf("\n") + 1;
+                region.text = cut ? region.text.substring(cut) : "";
+                if (region.base || region.ours || region.theirs)
+                {
+                    lines.push(region);
+                }
+            }
+            else
+            {
+                lines.push(region);
+            }
+        }
+        return lines;
+    }
+
+    /**
+     * Whether a side of a region ends its last line (or is empty).
+     *
+     * @private
+     * @param {string} text The side of the region.
+     * @returns {boolean} True if the text is empty or ends with a line break.
+     */
+    private merge_atLineEnd_(text: string): boolean
+    {
+        return !text || text.charAt(text.length - 1) === "\n";
+    }
+
+    /**
+     * End the last line of a side, so that a marker can follow it.
+     *
+     * @private
+     * @param {string} text The side of a conflict.
+     * @returns {string} The text, with a line break added unless it is empty or
+     * ends with one.
+     */
+    private merge_endLine_(text: string): string
+    {
+        return this.merge_atLineEnd_(text) ? text : text + "\n";
+    }
+    //#endregion MERGE FUNCTIONS (private)
 }
@@ -0,0 +1,9 @@
+/**
+ * Represents the part of an `AbortSignal` that `diff_mainAsync` reads, so the
+ * signal of any `AbortController` can be passed without the DOM typings.
+ */
+export interface AbortSignalLike
+{
+    readonly aborted: boolean;
+    readonly reason?: unknown;
+}
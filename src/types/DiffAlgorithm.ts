@@ -0,0 +1,16 @@
+/**
+ * Represents the algorithms that can align the lines of a line-level diff.
+ *
+ * `DIFF_MYERS` (the default) bisects the lines as described in Myers 1986 paper.
+ * `DIFF_PATIENCE` anchors on the lines that are unique to both texts first and
+ * bisects only the gaps between the anchors.
+ * `DIFF_HISTOGRAM` (as in git) anchors on the longest common run of lines
+ * containing the lines that occur least often, so repeated lines such as
+ * braces and blank lines only serve as anchors when nothing better is left.
+ */
+export enum DiffAlgorithm
+{
+    DIFF_MYERS = 0,
+    DIFF_PATIENCE = 1,
+    DIFF_HISTOGRAM = 2
+}
@@ -0,0 +1,16 @@
+/**
+ * Represents the options of `diff_toAnsi` and `patch_toAnsi`.
+ *
+ * `color` colors deletions in red and insertions in green with ANSI escape
+ * codes (defaults to true), otherwise they are marked as "[-text-]" and
+ * "{+text+}". `lineNumbers` prefixes each line with its numbers in the old and
+ * the new text, leaving the old one blank for inserted lines and the new one
+ * blank for deleted lines (defaults to false). `whitespace` shows the spaces,
+ * tabs and line breaks of the changes as "·", "→" and "↵" (defaults to false).
+ */
+export interface DiffAnsiOptions
+{
+    color?: boolean;
+    lineNumbers?: boolean;
+    whitespace?: boolean;
+}
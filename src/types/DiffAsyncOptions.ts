@@ -0,0 +1,16 @@
+import type { AbortSignalLike } from "./AbortSignalLike";
+import type { DiffProgress } from "./DiffProgress";
+
+/**
+ * Represents the options of `diff_mainAsync`.
+ *
+ * `signal` cancels the diff, `onProgress` is called at every step and
+ * `sliceLength` is the number of milliseconds to work before letting other
+ * tasks run (defaults to 10).
+ */
+export interface DiffAsyncOptions
+{
+    signal?: AbortSignalLike;
+    onProgress?: (progress: DiffProgress) => void;
+    sliceLength?: number;
+}
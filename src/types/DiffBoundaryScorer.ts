@@ -0,0 +1,9 @@
+/**
+ * Represents a function scoring how well the boundary between two strings
+ * falls on a logical boundary, see `diffBoundaryScorer`.
+ *
+ * `one` is the text before the boundary and `two` the text after it, either
+ * may be empty at the edges. Higher scores are better, the default ranges
+ * from 6 (best) to 0 (worst).
+ */
+export type DiffBoundaryScorer = (one: string, two: string) => number;
@@ -0,0 +1,20 @@
+/**
+ * Represents the atomic unit that `diff_main` compares.
+ *
+ * With `DIFF_CHARACTER` (the default), edits may start and end anywhere.
+ * With `DIFF_WORD`, the texts are tokenized on `diffWordBoundary` first, so
+ * every edit covers whole words (and whole separators).
+ * With `DIFF_GRAPHEME`, edits cover whole user-perceived characters, such as
+ * a letter with its combining marks or a ZWJ emoji sequence. The cleanups and
+ * patches keep them whole too.
+ * With `DIFF_CODE`, the texts are split by `diffCodeTokenizer` into
+ * identifiers, numbers, string literals, operators and whitespace first, so
+ * every edit covers whole tokens.
+ */
+export enum DiffGranularity
+{
+    DIFF_CHARACTER = 0,
+    DIFF_WORD = 1,
+    DIFF_GRAPHEME = 2,
+    DIFF_CODE = 3
+}
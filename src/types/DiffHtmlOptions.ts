@@ -0,0 +1,27 @@
+import type { DiffOperation } from "./DiffOperation";
+
+/**
+ * Represents the options of `diff_toHtml`.
+ *
+ * `insertTag`, `deleteTag` and `equalTag` name the elements wrapping each kind
+ * of text (default to "ins", "del" and "span"), an empty name leaves the text
+ * unwrapped. `insertClass`, `deleteClass` and `equalClass` set their class and
+ * `insertAttributes`, `deleteAttributes` and `equalAttributes` any other
+ * attributes, escaped. `newline` is the HTML of a line break (defaults to
+ * "\n"). `render` returns the HTML of a tuple, given its operation, its text
+ * and the HTML the other options made of it.
+ */
+export interface DiffHtmlOptions
+{
+    insertTag?: string;
+    deleteTag?: string;
+    equalTag?: string;
+    insertClass?: string;
+    deleteClass?: string;
+    equalClass?: string;
+    insertAttributes?: Record<string, string>;
+    deleteAttributes?: Record<string, string>;
+    equalAttributes?: Record<string, string>;
+    newline?: string;
+    render?: (op: DiffOperation, text: string, html: string) => string;
+}
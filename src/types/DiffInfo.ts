@@ -0,0 +1,18 @@
+import type { Diff } from "./Diff";
+import type { DiffRegion } from "./DiffRegion";
+
+/**
+ * Represents a diff and how it was computed, returned by `diff_mainWithInfo`.
+ *
+ * `truncated` tells whether the diff ran out of time (`diffTimeout`) or steps
+ * (`diffStepBudget`), `elapsed` is the time it took in milliseconds.
+ * `approximated` holds the regions which were given up on because of that and
+ * which the diff replaces as a whole, although they may have much in common.
+ */
+export interface DiffInfo
+{
+    diffs: Diff[];
+    truncated: boolean;
+    elapsed: number;
+    approximated: DiffRegion[];
+}
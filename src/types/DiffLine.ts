@@ -0,0 +1,14 @@
+import type { DiffRange } from "./DiffRange";
+
+/**
+ * Represents one side of a row of `diff_toRows`.
+ *
+ * `line` is the 1-based line number, `text` the line without its line break
+ * and `ranges` the characters of the line which the diff changed.
+ */
+export interface DiffLine
+{
+    line: number;
+    text: string;
+    ranges: DiffRange[];
+}
@@ -0,0 +1,18 @@
+/**
+ * Represents a block of text that moved, found by `diff_moves`.
+ *
+ * `index1` and `index2` are the indices of its `DIFF_DELETE` and `DIFF_INSERT`
+ * tuples in the diff, `start1` and `start2` their offsets in the old and the
+ * new text, `length1` and `length2` their lengths.
+ * `similarity` ranges from 1 (moved as is) down to 0 (nothing in common).
+ */
+export interface DiffMove
+{
+    index1: number;
+    index2: number;
+    start1: number;
+    start2: number;
+    length1: number;
+    length2: number;
+    similarity: number;
+}
@@ -0,0 +1,17 @@
+import type { DiffProgressStage } from "./DiffProgressStage";
+
+/**
+ * Represents the progress of a diff, reported by `diff_mainAsync`.
+ *
+ * `DIFF_BISECT` reports the edit distance walked so far (`done`) against the
+ * largest possible one (`total`), which the walk usually stops well before.
+ * `DIFF_LINE_MODE` reports the gap between matched lines being diffed, then
+ * the diff tuple being re-diffed (`done`) out of all of them (`total`).
+ * Nested diffs report their own progress, so `done` is not monotonic.
+ */
+export interface DiffProgress
+{
+    stage: DiffProgressStage;
+    done: number;
+    total: number;
+}
@@ -0,0 +1,12 @@
+/**
+ * Represents the step of a diff that reports a `DiffProgress`.
+ *
+ * `DIFF_BISECT` walks the edit graph of two texts, one edit at a time.
+ * `DIFF_LINE_MODE` diffs two texts line by line, then re-diffs the changed
+ * blocks character by character.
+ */
+export enum DiffProgressStage
+{
+    DIFF_BISECT = 0,
+    DIFF_LINE_MODE = 1
+}
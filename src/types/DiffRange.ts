@@ -0,0 +1,9 @@
+/**
+ * Represents a range of characters within a line, e.g. the changed words
+ * highlighted in a row of `diff_toRows`.
+ */
+export interface DiffRange
+{
+    start: number;
+    length: number;
+}
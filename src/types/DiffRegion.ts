@@ -0,0 +1,11 @@
+/**
+ * Represents a region of both texts of a diff, as offsets and lengths into the
+ * old text (`start1`, `length1`) and the new text (`start2`, `length2`).
+ */
+export interface DiffRegion
+{
+    start1: number;
+    length1: number;
+    start2: number;
+    length2: number;
+}
@@ -0,0 +1,15 @@
+import type { DiffLine } from "./DiffLine";
+import type { DiffRowKind } from "./DiffRowKind";
+
+/**
+ * Represents a row of a side-by-side view, returned by `diff_toRows`.
+ *
+ * `left` is the line of the old text and `right` the line of the new text,
+ * either is null on the blank side of an added or a removed row.
+ */
+export interface DiffRow
+{
+    kind: DiffRowKind;
+    left: DiffLine | null;
+    right: DiffLine | null;
+}
@@ -0,0 +1,14 @@
+/**
+ * Represents the kinds of rows of a side-by-side view, see `diff_toRows`.
+ *
+ * `ROW_EQUAL` rows have the same line on both sides, `ROW_MODIFIED` rows an
+ * old line and the new line it became. `ROW_REMOVED` and `ROW_ADDED` rows
+ * have a line on one side only.
+ */
+export enum DiffRowKind
+{
+    ROW_EQUAL = 0,
+    ROW_MODIFIED = 1,
+    ROW_ADDED = 2,
+    ROW_REMOVED = 3
+}
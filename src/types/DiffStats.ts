@@ -0,0 +1,21 @@
+/**
+ * Represents the statistics of a diff, returned by `diff_stats`.
+ *
+ * `charsDeleted` and `charsInserted` count the characters of the deletions and
+ * insertions, `wordsDeleted` and `wordsInserted` the words (runs of
+ * non-whitespace) of the old and the new text which they touch, and
+ * `linesDeleted` and `linesInserted` the lines they touch.
+ * `hunks` is the number of runs of changes between equalities and `ratio` the
+ * similarity of the texts, from 1 (equal) down to 0 (nothing in common).
+ */
+export interface DiffStats
+{
+    charsDeleted: number;
+    charsInserted: number;
+    wordsDeleted: number;
+    wordsInserted: number;
+    linesDeleted: number;
+    linesInserted: number;
+    hunks: number;
+    ratio: number;
+}
@@ -0,0 +1,7 @@
+/**
+ * Represents a function splitting a text into tokens, see `diffCodeTokenizer`.
+ *
+ * The tokens must rebuild the text when joined, e.g. "a+=1" into
+ * ["a", "+=", "1"].
+ */
+export type DiffTokenizer = (text: string) => string[];
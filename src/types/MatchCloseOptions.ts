@@ -0,0 +1,11 @@
+/**
+ * Represents the options of `match_closeMatches`.
+ *
+ * `cutoff` is the lowest similarity of a match, from 0 to 1 (defaults to 0.6),
+ * `limit` the largest number of matches (defaults to 3).
+ */
+export interface MatchCloseOptions
+{
+    cutoff?: number;
+    limit?: number;
+}
@@ -0,0 +1,12 @@
+/**
+ * Represents a candidate found by `match_closeMatches`.
+ *
+ * `index` is its index in the candidates and `ratio` its similarity to the
+ * text, from 1 (equal) down to 0 (nothing in common), see `diff_stats`.
+ */
+export interface MatchScore
+{
+    text: string;
+    index: number;
+    ratio: number;
+}
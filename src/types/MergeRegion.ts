@@ -0,0 +1,15 @@
+/**
+ * Represents a region of a three-way merge, see `merge3`.
+ *
+ * `base`, `ours` and `theirs` are the parts of the three texts in the region.
+ * A clean region has its merged `text`, a conflicting one (`conflict`) has an
+ * empty `text` and leaves the choice between `ours` and `theirs` to the caller.
+ */
+export interface MergeRegion
+{
+    conflict: boolean;
+    text: string;
+    base: string;
+    ours: string;
+    theirs: string;
+}
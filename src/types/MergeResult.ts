@@ -0,0 +1,13 @@
+import type { MergeRegion } from "./MergeRegion";
+
+/**
+ * Represents the result of a three-way merge, see `merge3`.
+ *
+ * The `regions` cover the texts in order, clean and conflicting ones
+ * alternating. `conflict` tells whether any of them conflicts.
+ */
+export interface MergeResult
+{
+    conflict: boolean;
+    regions: MergeRegion[];
+}
@@ -0,0 +1,14 @@
+/**
+ * Represents the ways `merge_resolve` can resolve the conflicts of a merge.
+ *
+ * `MERGE_OURS` and `MERGE_THEIRS` keep one side of each conflict.
+ * `MERGE_UNION` keeps the lines of both sides, ours first.
+ * `MERGE_LONGER` keeps the longer side of each conflict (ours on a tie).
+ */
+export enum MergeStrategy
+{
+    MERGE_OURS = 0,
+    MERGE_THEIRS = 1,
+    MERGE_UNION = 2,
+    MERGE_LONGER = 3
+}
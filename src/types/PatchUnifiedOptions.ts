@@ -0,0 +1,13 @@
+/**
+ * Represents the options of `patch_toUnified` and `patch_makeUnified`.
+ *
+ * `fileName1` and `fileName2` name the old and the new file in the "---" and
+ * "+++" headers (default to "a" and "b"), `context` is the number of unchanged
+ * lines around each hunk (defaults to 3).
+ */
+export interface PatchUnifiedOptions
+{
+    fileName1?: string;
+    fileName2?: string;
+    context?: number;
+}
@@ -0,0 +1,9 @@
+import type { DiffOperation } from "./DiffOperation";
+
+/**
+ * Represents one diff tuple of two sequences, in the form of `[op, items]`.
+ *
+ * `op` is the operation, one of: DIFF_DELETE, DIFF_INSERT, DIFF_EQUAL.
+ * `items` are the items to be deleted, inserted, or retained.
+ */
+export type SequenceDiff<T> = [DiffOperation, T[]];
@@ -1,4 +1,29 @@
+export * from "./AbortSignalLike";
 export * from "./Diff";
+export * from "./DiffAlgorithm";
+export * from "./DiffAnsiOptions";
+export * from "./DiffAsyncOptions";
+export * from "./DiffBoundaryScorer";
+export * from "./DiffGranularity";
+export * from "./DiffHtmlOptions";
+export * from "./DiffInfo";
+export * from "./DiffLine";
+export * from "./DiffMove";
 export * from "./DiffOperation";
+export * from "./DiffProgress";
+export * from "./DiffProgressStage";
+export * from "./DiffRange";
+export * from "./DiffRegion";
+export * from "./DiffRow";
+export * from "./DiffRowKind";
+export * from "./DiffStats";
+export * from "./DiffTokenizer";
 export * from "./HalfMatchArray";
+export * from "./MatchCloseOptions";
+export * from "./MatchScore";
+export * from "./MergeRegion";
+export * from "./MergeResult";
+export * from "./MergeStrategy";
 export * from "./PatchApplyArray";
+export * from "./PatchUnifiedOptions";
+export * from "./SequenceDiff";
@@ -1,2 +1,4 @@
 import * as m from "./math";
+import * as u from "./unicode";
 export const math = m;
+export const unicode = u;
@@ -0,0 +1,161 @@
+import { CJK_WORD_REGEX, GRAPHEME_REGEX, NON_ALPHA_NUMERIC_REGEX } from "../constants";
+
+/**
+ * The part of Intl.Segmenter we use, which is missing from the ES5 typings.
+ */
+interface GraphemeSegmenter
+{
+    segment(text: string): Iterable<{ segment: string }>;
+}
+
+let segmenter: GraphemeSegmenter | null | undefined;
+let wordSegmenter: GraphemeSegmenter | null | undefined;
+let alphaNumeric: RegExp | null | undefined;
+
+/**
+ * Splits the text into graphemes (user-perceived characters), using
+ * Intl.Segmenter where available.
+ */
+export function graphemes(text: string): string[]
+{
+    if (typeof segmenter === "undefined")
+    {
+        const Segmenter = typeof Intl === "undefined"
+            ? undefined
+            : (Intl as { Segmenter?: new (locales?: string, options?: { granularity: string }) => GraphemeSegmenter }).Segmenter;
+        segmenter = Segmenter ? new Segmenter(undefined, { granularity: "grapheme" }) : null;
+    }
+    if (!segmenter)
+    {
+        return simpleGraphemes(text);
+    }
+
+    // Segmenting takes quadratic time in the length of the text, so segment
+    // it in chunks. Each chunk starts at the last grapheme of the one before,
+    // which may have been cut off.
+    const result: string[] = [];
+    let start = 0;
+    let chunkLength = 1024;
+    while (start < text.length)
+    {
+        let end = start + chunkLength;
+        const code = text.charCodeAt(end - 1);
+        if (code >= 0xD800 && code <= 0xDBFF)
+        {
+            // Keep the surrogate pair whole.
+            end++;
+        }
+        const chunk: string[] = [];
+        for (const s of segmenter.segment(text.substring(start, end)))
+        {
+            chunk.push(s.segment);
+        }
+        if (end >= text.length)
+        {
+            return result.concat(chunk);
+        }
+        if (chunk.length === 1)
+        {
+            // A grapheme as long as the chunk.
+            chunkLength *= 2;
+            continue;
+        }
+        for (let i = 0; i < chunk.length - 1; i++)
+        {
+            result.push(chunk[i]);
+            start += chunk[i].length;
+        }
+    }
+    return result;
+}
+
+/**
+ * Splits the text into words and the text between them, using Intl.Segmenter
+ * where available, which finds the words of Chinese and Japanese text.
+ */
+export function words(text: string): string[]
+{
+    if (typeof wordSegmenter === "undefined")
+    {
+        const Segmenter = typeof Intl === "undefined"
+            ? undefined
+            : (Intl as { Segmenter?: new (locales?: string, options?: { granularity: string }) => GraphemeSegmenter }).Segmenter;
+        wordSegmenter = Segmenter ? new Segmenter(undefined, { granularity: "word" }) : null;
+    }
+    if (!wordSegmenter)
+    {
+        return simpleWords(text);
+    }
+
+    const result: string[] = [];
+    for (const s of wordSegmenter.segment(text))
+    {
+        result.push(s.segment);
+    }
+    return result;
+}
+
+/**
+ * Splits the text into approximate words, see CJK_WORD_REGEX.
+ */
+export function simpleWords(text: string): string[]
+{
+    const result = text.match(CJK_WORD_REGEX);
+    return result === null ? [] : result;
+}
+
+/**
+ * Splits the text into approximate graphemes, see GRAPHEME_REGEX.
+ */
+export function simpleGraphemes(text: string): string[]
+{
+    const result = text.match(GRAPHEME_REGEX);
+    return result === null ? [] : result;
+}
+
+/**
+ * Tests whether the character is a letter, a number or a combining mark of any
+ * script, using Unicode property escapes where available (ASCII letters and
+ * digits otherwise).
+ */
+export function isAlphaNumeric(char: string): boolean
+{
+    if (typeof alphaNumeric === "undefined")
+    {
+        try
+        {
+            // Built at runtime, ES5 engines reject the "u" flag.
+            alphaNumeric = new RegExp("^[\\p{L}\\p{N}\\p{M}]", "u");
+        }
+        catch
+        {
+            alphaNumeric = null;
+        }
+    }
+    if (!alphaNumeric)
+    {
+        return char.length !== 0 && !NON_ALPHA_NUMERIC_REGEX.test(char);
+    }
+    return alphaNumeric.test(char);
+}
+
+/**
+ * Returns the first code point of the text, a surrogate pair as a whole.
+ */
+export function firstCodePoint(text: string): string
+{
+    const code = text.charCodeAt(0);
+    return code >= 0xD800 && code <= 0xDBFF ? text.substring(0, 2) : text.charAt(0);
+}
+
+/**
+ * Returns the last code point of the text, a surrogate pair as a whole.
+ */
+export function lastCodePoint(text: string): string
+{
+    const code = text.charCodeAt(text.length - 1);
+    const previous = text.charCodeAt(text.length - 2);
+    return code >= 0xDC00 && code <= 0xDFFF && previous >= 0xD800 && previous <= 0xDBFF
+        ? text.substring(text.length - 2)
+        : text.charAt(text.length - 1);
+}
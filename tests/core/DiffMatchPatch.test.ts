@@ -19,7 +19,18 @@
  */
 
 import { DiffMatchPatch } from "../../src/core";
-import { Diff, DiffOperation } from "../../src/types";
+import
+{
+    Diff,
+    DiffAlgorithm,
+    DiffGranularity,
+    DiffOperation,
+    DiffProgress,
+    DiffProgressStage,
+    DiffRowKind,
+    MergeStrategy,
+    SequenceDiff
+} from "../../src/types";
 
 let dmp: DiffMatchPatch;
 describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
@@ -208,6 +219,312 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         expect(diffs[0][1]).toEqual(chars);
     });
 
+    it("DIFF - Words To Chars", () =>
+    {
+        function expectEqual(a: any, b: any)
+        {
+            expect(a.chars1).toEqual(b.chars1);
+            expect(a.chars2).toEqual(b.chars2);
+            expect(a.wordArray).toStrictEqual(b.wordArray);
+        }
+
+        // Convert words down to characters.
+        expectEqual(
+            { chars1: "\x01\x02\x03", chars2: "\x03\x02\x01", wordArray: ["", "alpha", " ", "beta"] },
+            dmp.diff_wordsToChars("alpha beta", "beta alpha")
+        );
+
+        // Whitespace runs and punctuation are tokens of their own.
+        expectEqual(
+            { chars1: "\x01\x02\x03\x04\x05", chars2: "", wordArray: ["", "Hello", ",", "  ", "wörld", "!"] },
+            dmp.diff_wordsToChars("Hello,  wörld!", "")
+        );
+
+        // Custom boundaries.
+        dmp.diffWordBoundary = /\|/;
+        expectEqual(
+            { chars1: "\x01\x02\x03", chars2: "\x01\x02\x04", wordArray: ["", "a b", "|", "c", "d"] },
+            dmp.diff_wordsToChars("a b|c", "a b|d")
+        );
+        dmp.diffWordBoundary = /\s+|[!-/:-@[-^`{-~]/;
+
+        // Rehydrate with diff_charsToLines.
+        const result = dmp.diff_wordsToChars("The cat sat.", "");
+        const diffs: Diff[] = [[DiffOperation.DIFF_DELETE, result.chars1]];
+        dmp.diff_charsToLines(diffs, result.wordArray);
+        expect(diffs).toStrictEqual([[DiffOperation.DIFF_DELETE, "The cat sat."]]);
+    });
+
+    it("DIFF - Word Mode", () =>
+    {
+        dmp.diffGranularity = DiffGranularity.DIFF_WORD;
+
+        // Edits cover whole words.
+        expect(dmp.diff_main("The cat sat.", "The car sat.")).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "The "],
+            [DiffOperation.DIFF_DELETE, "cat"],
+            [DiffOperation.DIFF_INSERT, "car"],
+            [DiffOperation.DIFF_EQUAL, " sat."]
+        ]);
+
+        expect(dmp.diff_main("getUser(id)", "getUsers(id, all)")).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, "getUser"],
+            [DiffOperation.DIFF_INSERT, "getUsers"],
+            [DiffOperation.DIFF_EQUAL, "(id"],
+            [DiffOperation.DIFF_INSERT, ", all"],
+            [DiffOperation.DIFF_EQUAL, ")"]
+        ]);
+
+        // Texts are preserved.
+        const text1 = "Apples are a fruit. Bananas are too.";
+        const text2 = "Apples are also a fruit. Cherries are too!";
+        let diffs = dmp.diff_main(text1, text2);
+        expect(dmp.diff_text1(diffs)).toEqual(text1);
+        expect(dmp.diff_text2(diffs)).toEqual(text2);
+
+        // Cleanups and patches keep the words whole too.
+        diffs = dmp.diff_main("The cat sat.", "The cats sat.");
+        dmp.diff_cleanupSemantic(diffs);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "The "],
+            [DiffOperation.DIFF_DELETE, "cat"],
+            [DiffOperation.DIFF_INSERT, "cats"],
+            [DiffOperation.DIFF_EQUAL, " sat."]
+        ]);
+        diffs = [[DiffOperation.DIFF_DELETE, "abc"], [DiffOperation.DIFF_INSERT, "abcd"], [DiffOperation.DIFF_EQUAL, " x"]];
+        dmp.diff_cleanupSemantic(diffs);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, "abc"],
+            [DiffOperation.DIFF_INSERT, "abcd"],
+            [DiffOperation.DIFF_EQUAL, " x"]
+        ]);
+        expect(dmp.patch_make("The cat sat.", "The cats sat.")[0].diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "The "],
+            [DiffOperation.DIFF_DELETE, "cat"],
+            [DiffOperation.DIFF_INSERT, "cats"],
+            [DiffOperation.DIFF_EQUAL, " sat"]
+        ]);
+
+        // More unique words than fit into characters are still words.
+        const words1: string[] = [];
+        const words2: string[] = [];
+        for (let x = 0; x < 70000; x++)
+        {
+            words1.push(`w${x}`);
+            words2.push(x === 69000 ? `v${x}` : `w${x}`);
+        }
+        const many1 = words1.join(" ");
+        const many2 = words2.join(" ");
+        const manyDiffs: Diff[] = [
+            [DiffOperation.DIFF_EQUAL, many1.substring(0, many1.indexOf("w69000 "))],
+            [DiffOperation.DIFF_DELETE, "w69000"],
+            [DiffOperation.DIFF_INSERT, "v69000"],
+            [DiffOperation.DIFF_EQUAL, many1.substring(many1.indexOf(" w69001"))]
+        ];
+        diffs = dmp.diff_main(many1, many2);
+        expect(diffs).toStrictEqual(manyDiffs);
+        dmp.diff_cleanupSemantic(diffs);
+        expect(diffs).toStrictEqual(manyDiffs);
+        expect(dmp["diff_granularTokens_"](many1).length).toEqual(139999);
+
+        dmp.diffGranularity = DiffGranularity.DIFF_CHARACTER;
+        expect(dmp.diff_main("The cat sat.", "The car sat.")).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "The ca"],
+            [DiffOperation.DIFF_DELETE, "t"],
+            [DiffOperation.DIFF_INSERT, "r"],
+            [DiffOperation.DIFF_EQUAL, " sat."]
+        ]);
+    });
+
+    it("DIFF - Graphemes To Chars", () =>
+    {
+        expect(dmp.diff_graphemesToChars("e\u0301\uD83D\uDC4D\uD83C\uDFFDe", "e\u0301e\u0300")).toStrictEqual({
+            chars1: "\x01\x02\x03",
+            chars2: "\x01\x04",
+            graphemeArray: ["", "e\u0301", "\uD83D\uDC4D\uD83C\uDFFD", "e", "e\u0300"]
+        });
+        expect(dmp.diff_graphemesToChars("", "")).toStrictEqual({ chars1: "", chars2: "", graphemeArray: [""] });
+    });
+
+    it("DIFF - Grapheme Mode", () =>
+    {
+        const text1 = "cafe\u0301 \uD83D\uDC68\u200D\uD83D\uDC69\u200D\uD83D\uDC67 \uD83D\uDC4D\uD83C\uDFFD \uD83C\uDDEB\uD83C\uDDF7 done";
+        const text2 = "cafe\u0300 \uD83D\uDC68\u200D\uD83D\uDC69\u200D\uD83D\uDC66 \uD83D\uDC4D\uD83C\uDFFF \uD83C\uDDE9\uD83C\uDDEA done!";
+        dmp.diffGranularity = DiffGranularity.DIFF_GRAPHEME;
+        let diffs = dmp.diff_main(text1, text2);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "caf"],
+            [DiffOperation.DIFF_DELETE, "e\u0301"],
+            [DiffOperation.DIFF_INSERT, "e\u0300"],
+            [DiffOperation.DIFF_EQUAL, " "],
+            [DiffOperation.DIFF_DELETE, "\uD83D\uDC68\u200D\uD83D\uDC69\u200D\uD83D\uDC67"],
+            [DiffOperation.DIFF_INSERT, "\uD83D\uDC68\u200D\uD83D\uDC69\u200D\uD83D\uDC66"],
+            [DiffOperation.DIFF_EQUAL, " "],
+            [DiffOperation.DIFF_DELETE, "\uD83D\uDC4D\uD83C\uDFFD"],
+            [DiffOperation.DIFF_INSERT, "\uD83D\uDC4D\uD83C\uDFFF"],
+            [DiffOperation.DIFF_EQUAL, " "],
+            [DiffOperation.DIFF_DELETE, "\uD83C\uDDEB\uD83C\uDDF7"],
+            [DiffOperation.DIFF_INSERT, "\uD83C\uDDE9\uD83C\uDDEA"],
+            [DiffOperation.DIFF_EQUAL, " done"],
+            [DiffOperation.DIFF_INSERT, "!"]
+        ]);
+
+        // More unique graphemes than fit into characters are still graphemes.
+        let many1 = "";
+        let many2 = "";
+        for (let x = 0; x < 70000; x++)
+        {
+            const grapheme = String.fromCharCode(0xD840 + (x >> 10), 0xDC00 + (x & 0x3FF));
+            many1 += grapheme;
+            many2 += x === 69000 ? "a" : grapheme;
+        }
+        expect(dmp.diff_main(many1, many2)).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, many1.substring(0, 138000)],
+            [DiffOperation.DIFF_DELETE, many1.substring(138000, 138002)],
+            [DiffOperation.DIFF_INSERT, "a"],
+            [DiffOperation.DIFF_EQUAL, many1.substring(138002)]
+        ]);
+
+        // Common prefix and suffix never end inside a grapheme.
+        expect(dmp.diff_commonPrefix("e\u0301", "e\u0300")).toEqual(0);
+        expect(dmp.diff_commonSuffix("x\u0301", "y\u0301")).toEqual(0);
+        expect(dmp.diff_commonPrefix("ae\u0301b", "ae\u0301c")).toEqual(3);
+
+        // Merge.
+        diffs = [[DiffOperation.DIFF_DELETE, "e\u0301"], [DiffOperation.DIFF_INSERT, "e\u0300"]];
+        dmp.diff_cleanupMerge(diffs);
+        expect(diffs).toStrictEqual([[DiffOperation.DIFF_DELETE, "e\u0301"], [DiffOperation.DIFF_INSERT, "e\u0300"]]);
+
+        // Lossless shifts stop on graphemes only.
+        diffs = [[DiffOperation.DIFF_EQUAL, "aee"], [DiffOperation.DIFF_INSERT, "e \u0301x"], [DiffOperation.DIFF_EQUAL, "e x\n"]];
+        dmp.diff_cleanupSemanticLossless(diffs);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "aeee"],
+            [DiffOperation.DIFF_INSERT, " \u0301xe"],
+            [DiffOperation.DIFF_EQUAL, " x\n"]
+        ]);
+
+        dmp.diffGranularity = DiffGranularity.DIFF_CHARACTER;
+        diffs = [[DiffOperation.DIFF_EQUAL, "aee"], [DiffOperation.DIFF_INSERT, "e \u0301x"], [DiffOperation.DIFF_EQUAL, "e x\n"]];
+        dmp.diff_cleanupSemanticLossless(diffs);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "aeee "],
+            [DiffOperation.DIFF_INSERT, "\u0301xe "],
+            [DiffOperation.DIFF_EQUAL, "x\n"]
+        ]);
+    });
+
+    it("DIFF - Code To Chars", () =>
+    {
+        expect(dmp.diff_codeTokens('s = "a \\"b\\"" + x.y(1.5e3, 0xFF) >>>= 2;\r\n')).toStrictEqual([
+            "s", " ", "=", " ", '"a \\"b\\""', " ", "+", " ", "x", ".", "y", "(", "1.5e3", ",", " ", "0xFF", ")",
+            " ", ">>>=", " ", "2", ";", "\r\n"
+        ]);
+        expect(dmp.diff_codeTokens("")).toStrictEqual([]);
+
+        expect(dmp.diff_codeToChars("a = 1;", "a == 1;")).toStrictEqual({
+            chars1: "\x01\x02\x03\x02\x04\x05",
+            chars2: "\x01\x02\x06\x02\x04\x05",
+            tokenArray: ["", "a", " ", "=", "1", ";", "=="]
+        });
+        expect(dmp.diff_codeToChars("", "")).toStrictEqual({ chars1: "", chars2: "", tokenArray: [""] });
+    });
+
+    it("DIFF - Code Mode", () =>
+    {
+        dmp.diffGranularity = DiffGranularity.DIFF_CODE;
+
+        // Edits cover whole tokens.
+        expect(dmp.diff_main('const user = getUser(id, "old name");', 'const users = getUsers(id, "new name") ?? [];')).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "const "],
+            [DiffOperation.DIFF_DELETE, "user"],
+            [DiffOperation.DIFF_INSERT, "users"],
+            [DiffOperation.DIFF_EQUAL, " = "],
+            [DiffOperation.DIFF_DELETE, "getUser"],
+            [DiffOperation.DIFF_INSERT, "getUsers"],
+            [DiffOperation.DIFF_EQUAL, "(id, "],
+            [DiffOperation.DIFF_DELETE, '"old name"'],
+            [DiffOperation.DIFF_INSERT, '"new name"'],
+            [DiffOperation.DIFF_EQUAL, ")"],
+            [DiffOperation.DIFF_INSERT, " ?? []"],
+            [DiffOperation.DIFF_EQUAL, ";"]
+        ]);
+        expect(dmp.diff_main("if (a == 10) {", "if (a === 100) {")).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "if (a "],
+            [DiffOperation.DIFF_DELETE, "=="],
+            [DiffOperation.DIFF_INSERT, "==="],
+            [DiffOperation.DIFF_EQUAL, " "],
+            [DiffOperation.DIFF_DELETE, "10"],
+            [DiffOperation.DIFF_INSERT, "100"],
+            [DiffOperation.DIFF_EQUAL, ") {"]
+        ]);
+
+        // Cleanups and patches keep the tokens whole too.
+        const diffs = dmp.diff_main("const user = getUser(id);", "const user = getUsers(id);");
+        dmp.diff_cleanupSemantic(diffs);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "const user = "],
+            [DiffOperation.DIFF_DELETE, "getUser"],
+            [DiffOperation.DIFF_INSERT, "getUsers"],
+            [DiffOperation.DIFF_EQUAL, "(id);"]
+        ]);
+        expect(dmp.patch_make("const user = getUser(id);", "const user = getUsers(id);")[0].diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "user = "],
+            [DiffOperation.DIFF_DELETE, "getUser"],
+            [DiffOperation.DIFF_INSERT, "getUsers"],
+            [DiffOperation.DIFF_EQUAL, "(id)"]
+        ]);
+        expect(dmp.diff_intraline(dmp.diff_main("a = getUser(id);\n", "a = getUsers(id);\n"))).toStrictEqual([
+            {
+                kind: DiffRowKind.ROW_MODIFIED,
+                left: { line: 1, text: "a = getUser(id);", ranges: [{ start: 4, length: 7 }] },
+                right: { line: 1, text: "a = getUsers(id);", ranges: [{ start: 4, length: 8 }] }
+            }
+        ]);
+
+        // More unique tokens than fit into characters are still tokens.
+        let many1 = "";
+        let many2 = "";
+        for (let x = 0; x < 35000; x++)
+        {
+            many1 += `let v${x} = ${x};\n`;
+            many2 += x === 34000 ? `let w${x} = ${x};\n` : `let v${x} = ${x};\n`;
+        }
+        const manyDiffs: Diff[] = [
+            [DiffOperation.DIFF_EQUAL, many1.substring(0, many1.indexOf("v34000 "))],
+            [DiffOperation.DIFF_DELETE, "v34000"],
+            [DiffOperation.DIFF_INSERT, "w34000"],
+            [DiffOperation.DIFF_EQUAL, many1.substring(many1.indexOf(" = 34000;"))]
+        ];
+        const manyTokens = dmp.diff_main(many1, many2);
+        expect(manyTokens).toStrictEqual(manyDiffs);
+        dmp.diff_cleanupSemantic(manyTokens);
+        expect(manyTokens).toStrictEqual(manyDiffs);
+
+        // Custom tokenizer.
+        dmp.diffCodeTokenizer = (text) => text.split(/(\s+)/).filter((token) => token !== "");
+        expect(dmp.diff_main("a+b c", "a+c c")).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, "a+b"],
+            [DiffOperation.DIFF_INSERT, "a+c"],
+            [DiffOperation.DIFF_EQUAL, " c"]
+        ]);
+
+        // Test invalid tokenizers.
+        dmp.diffCodeTokenizer = () => ["x"];
+        try
+        {
+            dmp.diff_main("ab", "ac");
+            fail("Should generates error of invalid tokens");
+        }
+        catch (e: any)
+        {
+            // Exception expected.
+            expect(e.message).toEqual("Tokens do not rebuild the text. (diffCodeTokenizer)");
+        }
+        dmp.diffCodeTokenizer = null;
+        dmp.diffGranularity = DiffGranularity.DIFF_CHARACTER;
+    });
+
     it("DIFF - Cleanup Merge", () =>
     {
         // Cleanup a messy diff.
@@ -291,6 +608,43 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         expect([[DiffOperation.DIFF_INSERT, "a"], [DiffOperation.DIFF_EQUAL, "b"]]).toStrictEqual(diffs);
     });
 
+    it("DIFF - Cleanup Semantic Cjk", () =>
+    {
+        // Null case.
+        let diffs: Diff[] = [];
+        dmp.diff_cleanupSemanticCjk(diffs);
+        expect(diffs).toStrictEqual([]);
+
+        // No change case.
+        diffs = [[DiffOperation.DIFF_EQUAL, "中文"], [DiffOperation.DIFF_INSERT, "。"]];
+        dmp.diff_cleanupSemanticCjk(diffs);
+        expect(diffs).toStrictEqual([[DiffOperation.DIFF_EQUAL, "中文"], [DiffOperation.DIFF_INSERT, "。"]]);
+
+        // Edits within words.
+        diffs = dmp.diff_main("我们明天去北京开会", "我们后天去上海开会");
+        dmp.diff_cleanupSemanticCjk(diffs);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "我们"],
+            [DiffOperation.DIFF_DELETE, "明天"],
+            [DiffOperation.DIFF_INSERT, "后天"],
+            [DiffOperation.DIFF_EQUAL, "去"],
+            [DiffOperation.DIFF_DELETE, "北京"],
+            [DiffOperation.DIFF_INSERT, "上海"],
+            [DiffOperation.DIFF_EQUAL, "开会"]
+        ]);
+
+        // Mixed with Latin text, which is left as is.
+        diffs = dmp.diff_main("Version 2 发布于星期一", "Version 3 发布于星期二");
+        dmp.diff_cleanupSemanticCjk(diffs);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "Version "],
+            [DiffOperation.DIFF_DELETE, "2"],
+            [DiffOperation.DIFF_INSERT, "3"],
+            [DiffOperation.DIFF_EQUAL, " 发布于"],
+            [DiffOperation.DIFF_DELETE, "星期一"],
+            [DiffOperation.DIFF_INSERT, "星期二"]
+        ]);
+    });
     it("DIFF - Cleanup Semantic Lossless", () =>
     {
         // Slide diffs to match logical boundaries.
@@ -336,6 +690,29 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         expect([[DiffOperation.DIFF_EQUAL, "The xxx."], [DiffOperation.DIFF_INSERT, " The zzz."], [DiffOperation.DIFF_EQUAL, " The yyy."]]).toStrictEqual(diffs);
     });
 
+    it("DIFF - Boundary Score", () =>
+    {
+        // Letters of all scripts.
+        expect(dmp.diff_boundaryScore("", "a")).toEqual(6);
+        expect(dmp.diff_boundaryScore("caf", "é")).toEqual(0);
+        expect(dmp.diff_boundaryScore("𝒳", "a")).toEqual(0);
+        expect(dmp.diff_boundaryScore("Это.", " Да")).toEqual(3);
+        expect(dmp.diff_boundaryScore("Это", " да")).toEqual(2);
+        expect(dmp.diff_boundaryScore("да", "-нет")).toEqual(1);
+
+        // Cyrillic words are kept whole.
+        let diffs: Diff[] = [[DiffOperation.DIFF_EQUAL, "Я люблю к"], [DiffOperation.DIFF_INSERT, "ошку и люблю к"], [DiffOperation.DIFF_EQUAL, "ота."]];
+        dmp.diff_cleanupSemanticLossless(diffs);
+        expect(diffs).toStrictEqual([[DiffOperation.DIFF_EQUAL, "Я люблю "], [DiffOperation.DIFF_INSERT, "кошку и люблю "], [DiffOperation.DIFF_EQUAL, "кота."]]);
+
+        // Custom scorer.
+        dmp.diffBoundaryScorer = () => 0;
+        diffs = [[DiffOperation.DIFF_EQUAL, "The c"], [DiffOperation.DIFF_INSERT, "ow and the c"], [DiffOperation.DIFF_EQUAL, "at."]];
+        dmp.diff_cleanupSemanticLossless(diffs);
+        expect(diffs).toStrictEqual([[DiffOperation.DIFF_EQUAL, "The c"], [DiffOperation.DIFF_INSERT, "ow and the c"], [DiffOperation.DIFF_EQUAL, "at."]]);
+        dmp.diffBoundaryScorer = null;
+    });
+
     it("DIFF - Cleanup Semantic", () =>
     {
         // Cleanup semantically trivial equalities.
@@ -400,6 +777,15 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         dmp.diff_cleanupSemantic(diffs);
         expect([[DiffOperation.DIFF_INSERT, "def"], [DiffOperation.DIFF_EQUAL, "xxx"], [DiffOperation.DIFF_DELETE, "abc"]]).toStrictEqual(diffs);
 
+        // Overlap swallowing a whole edit.
+        diffs = [[DiffOperation.DIFF_DELETE, "xxx"], [DiffOperation.DIFF_INSERT, "abcxxx"], [DiffOperation.DIFF_EQUAL, "1"]];
+        dmp.diff_cleanupSemantic(diffs);
+        expect([[DiffOperation.DIFF_INSERT, "abc"], [DiffOperation.DIFF_EQUAL, "xxx1"]]).toStrictEqual(diffs);
+
+        diffs = [[DiffOperation.DIFF_EQUAL, "q"], [DiffOperation.DIFF_DELETE, "abc"], [DiffOperation.DIFF_INSERT, "abcd"]];
+        dmp.diff_cleanupSemantic(diffs);
+        expect([[DiffOperation.DIFF_EQUAL, "qabc"], [DiffOperation.DIFF_INSERT, "d"]]).toStrictEqual(diffs);
+
         // Two overlap eliminations.
         diffs = [
             [DiffOperation.DIFF_DELETE, "abcd1212"],
@@ -485,6 +871,81 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         expect('<span>a&para;<br></span><del style="background:#ffe6e6;">&lt;B&gt;b&lt;/B&gt;</del><ins style="background:#e6ffe6;">c&amp;d</ins>').toStrictEqual(dmp.diff_prettyHtml(diffs));
     });
 
+    it("DIFF - To Html", () =>
+    {
+        const diffs: Diff[] = [[DiffOperation.DIFF_EQUAL, "a\n"], [DiffOperation.DIFF_DELETE, "<B>b</B>"], [DiffOperation.DIFF_INSERT, "c&d"]];
+
+        // Defaults.
+        expect(dmp.diff_toHtml(diffs)).toStrictEqual("<span>a\n</span><del>&lt;B&gt;b&lt;/B&gt;</del><ins>c&amp;d</ins>");
+
+        // Classes, tags, escaped attributes and line breaks.
+        expect(dmp.diff_toHtml(diffs, {
+            insertClass: "diff-ins",
+            deleteClass: "diff-del",
+            deleteTag: "s",
+            equalTag: "",
+            insertAttributes: { "data-title": "\"a\" & 'b'" },
+            newline: "<br>"
+        })).toStrictEqual(
+            'a<br><s class="diff-del">&lt;B&gt;b&lt;/B&gt;</s>'
+            + '<ins class="diff-ins" data-title="&quot;a&quot; &amp; &#39;b&#39;">c&amp;d</ins>'
+        );
+
+        // Rendering of each tuple.
+        expect(dmp.diff_toHtml(diffs, {
+            render: (op, text, html) => (op === DiffOperation.DIFF_EQUAL ? html : "[" + text.length + "]")
+        })).toStrictEqual("<span>a\n</span>[8][3]");
+
+        // Test invalid inputs.
+        try
+        {
+            dmp.diff_toHtml(diffs, { insertTag: "ins onclick=alert(1)" });
+            fail("Should generates error of invalid inputs");
+        }
+        catch (e: any)
+        {
+            // Exception expected.
+            expect(e.message).toEqual("Invalid tag name: ins onclick=alert(1)");
+        }
+        try
+        {
+            dmp.diff_toHtml(diffs, { equalAttributes: { "a b": "" } });
+            fail("Should generates error of invalid inputs");
+        }
+        catch (e: any)
+        {
+            // Exception expected.
+            expect(e.message).toEqual("Invalid attribute name: a b");
+        }
+    });
+
+    it("DIFF - To Ansi", () =>
+    {
+        // Null case.
+        expect(dmp.diff_toAnsi([])).toStrictEqual("");
+
+        const diffs: Diff[] = [
+            [DiffOperation.DIFF_EQUAL, "one\ntwo "],
+            [DiffOperation.DIFF_DELETE, "old\t\n"],
+            [DiffOperation.DIFF_INSERT, "new line\n"],
+            [DiffOperation.DIFF_EQUAL, "three\n"]
+        ];
+        expect(dmp.diff_toAnsi(diffs)).toStrictEqual(
+            "one\ntwo \x1b[31mold\t\x1b[0m\n\x1b[32mnew line\x1b[0m\nthree\n"
+        );
+
+        // Without colors, with line numbers and whitespace.
+        expect(dmp.diff_toAnsi(diffs, { color: false, lineNumbers: true, whitespace: true })).toStrictEqual(
+            "1 1 | one\n2 2 | two [-old→↵-]\n  2 | {+new·line↵+}\n3 3 | three\n"
+        );
+
+        // Only the old number of a deleted line.
+        expect(dmp.diff_toAnsi(
+            [[DiffOperation.DIFF_EQUAL, "a\n"], [DiffOperation.DIFF_DELETE, "b\n"], [DiffOperation.DIFF_EQUAL, "c\n"]],
+            { color: false, lineNumbers: true }
+        )).toStrictEqual("1 1 | a\n2   | [-b-]\n3 2 | c\n");
+    });
+
     it("DIFF - Text", () =>
     {
         // Compute the source and destination texts.
@@ -618,6 +1079,211 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         expect(dmp.diff_levenshtein([[DiffOperation.DIFF_DELETE, "abc"], [DiffOperation.DIFF_EQUAL, "xyz"], [DiffOperation.DIFF_INSERT, "1234"]])).toBe(7);
     });
 
+    it("DIFF - Stats", () =>
+    {
+        // Null case.
+        expect(dmp.diff_stats([])).toStrictEqual({
+            charsDeleted: 0,
+            charsInserted: 0,
+            wordsDeleted: 0,
+            wordsInserted: 0,
+            linesDeleted: 0,
+            linesInserted: 0,
+            hunks: 0,
+            ratio: 1
+        });
+
+        // Words and lines touched by the changes.
+        expect(dmp.diff_stats([
+            [DiffOperation.DIFF_EQUAL, "const user"],
+            [DiffOperation.DIFF_INSERT, "s"],
+            [DiffOperation.DIFF_EQUAL, " = getUser"],
+            [DiffOperation.DIFF_INSERT, "s"],
+            [DiffOperation.DIFF_EQUAL, "(id"],
+            [DiffOperation.DIFF_INSERT, "s"],
+            [DiffOperation.DIFF_EQUAL, ");\nreturn user;\n"],
+            [DiffOperation.DIFF_DELETE, "old line\n"],
+            [DiffOperation.DIFF_INSERT, "new line\n"]
+        ])).toStrictEqual({
+            charsDeleted: 9,
+            charsInserted: 12,
+            wordsDeleted: 2,
+            wordsInserted: 4,
+            linesDeleted: 2,
+            linesInserted: 2,
+            hunks: 4,
+            ratio: 2 * 39 / (48 + 51)
+        });
+
+        // Nothing in common.
+        expect(dmp.diff_stats([[DiffOperation.DIFF_DELETE, "abc"], [DiffOperation.DIFF_INSERT, "xyz"]]).ratio).toEqual(0);
+    });
+
+    it("DIFF - Moves", () =>
+    {
+        const p1 = "The quick brown fox jumps over the lazy dog.\n";
+        const p2 = "Pack my box with five dozen liquor jugs, please.\n";
+
+        // A paragraph moved and edited.
+        let diffs: Diff[] = [
+            [DiffOperation.DIFF_DELETE, p1],
+            [DiffOperation.DIFF_EQUAL, p2],
+            [DiffOperation.DIFF_INSERT, p1.replace("lazy", "sleepy")]
+        ];
+        expect(dmp.diff_moves(diffs)).toStrictEqual([
+            { index1: 0, index2: 2, start1: 0, start2: 49, length1: 45, length2: 47, similarity: 1 - 4 / 47 }
+        ]);
+
+        // Too different.
+        const threshold = dmp.diffMoveThreshold;
+        dmp.diffMoveThreshold = 0.05;
+        expect(dmp.diff_moves(diffs)).toStrictEqual([]);
+        dmp.diffMoveThreshold = threshold;
+
+        // Too short.
+        expect(dmp.diff_moves([
+            [DiffOperation.DIFF_DELETE, "fox"],
+            [DiffOperation.DIFF_EQUAL, p2],
+            [DiffOperation.DIFF_INSERT, "fox"]
+        ])).toStrictEqual([]);
+
+        // A replacement is not a move.
+        expect(dmp.diff_moves([
+            [DiffOperation.DIFF_DELETE, p1],
+            [DiffOperation.DIFF_INSERT, p1.replace("lazy", "sleepy")]
+        ])).toStrictEqual([]);
+
+        // The most similar pairs win, each edit moves once.
+        diffs = [
+            [DiffOperation.DIFF_DELETE, p1],
+            [DiffOperation.DIFF_EQUAL, "x"],
+            [DiffOperation.DIFF_INSERT, p1.replace("lazy", "sleepy")],
+            [DiffOperation.DIFF_EQUAL, "y"],
+            [DiffOperation.DIFF_INSERT, p1]
+        ];
+        expect(dmp.diff_moves(diffs)).toStrictEqual([
+            { index1: 0, index2: 4, start1: 0, start2: 49, length1: 45, length2: 45, similarity: 1 }
+        ]);
+    });
+
+    it("DIFF - To Rows", () =>
+    {
+        // Null case.
+        expect(dmp.diff_toRows([])).toStrictEqual([]);
+
+        // Equal, modified, removed and added rows.
+        const diffs: Diff[] = [
+            [DiffOperation.DIFF_EQUAL, "one\ntwo"],
+            [DiffOperation.DIFF_INSERT, " 2"],
+            [DiffOperation.DIFF_EQUAL, "\nthree\n"],
+            [DiffOperation.DIFF_DELETE, "four\r\n"],
+            [DiffOperation.DIFF_EQUAL, "five\n"],
+            [DiffOperation.DIFF_INSERT, "six"]
+        ];
+        expect(dmp.diff_toRows(diffs)).toStrictEqual([
+            {
+                kind: DiffRowKind.ROW_EQUAL,
+                left: { line: 1, text: "one", ranges: [] },
+                right: { line: 1, text: "one", ranges: [] }
+            },
+            {
+                kind: DiffRowKind.ROW_MODIFIED,
+                left: { line: 2, text: "two", ranges: [] },
+                right: { line: 2, text: "two 2", ranges: [{ start: 3, length: 2 }] }
+            },
+            {
+                kind: DiffRowKind.ROW_EQUAL,
+                left: { line: 3, text: "three", ranges: [] },
+                right: { line: 3, text: "three", ranges: [] }
+            },
+            {
+                kind: DiffRowKind.ROW_REMOVED,
+                left: { line: 4, text: "four", ranges: [{ start: 0, length: 4 }] },
+                right: null
+            },
+            {
+                kind: DiffRowKind.ROW_EQUAL,
+                left: { line: 5, text: "five", ranges: [] },
+                right: { line: 4, text: "five", ranges: [] }
+            },
+            {
+                kind: DiffRowKind.ROW_ADDED,
+                left: null,
+                right: { line: 5, text: "six", ranges: [{ start: 0, length: 3 }] }
+            }
+        ]);
+
+        // Changes across lines are split by line.
+        expect(dmp.diff_toRows([
+            [DiffOperation.DIFF_EQUAL, "a"],
+            [DiffOperation.DIFF_DELETE, "b\nc"],
+            [DiffOperation.DIFF_INSERT, "x"],
+            [DiffOperation.DIFF_EQUAL, "d\n"]
+        ])).toStrictEqual([
+            {
+                kind: DiffRowKind.ROW_MODIFIED,
+                left: { line: 1, text: "ab", ranges: [{ start: 1, length: 1 }] },
+                right: { line: 1, text: "axd", ranges: [{ start: 1, length: 1 }] }
+            },
+            {
+                kind: DiffRowKind.ROW_REMOVED,
+                left: { line: 2, text: "cd", ranges: [{ start: 0, length: 1 }] },
+                right: null
+            }
+        ]);
+    });
+
+    it("DIFF - Intraline", () =>
+    {
+        // Null case.
+        expect(dmp.diff_intraline([])).toStrictEqual([]);
+
+        // Changed lines are paired and diffed again.
+        const diffs: Diff[] = [
+            [DiffOperation.DIFF_DELETE, "const user = getUser(id);\nreturn user;\n"],
+            [DiffOperation.DIFF_INSERT, "const users = getUsers(ids);\nreturn users;\nextra\n"],
+            [DiffOperation.DIFF_EQUAL, "}\n"]
+        ];
+        expect(dmp.diff_intraline(diffs)).toStrictEqual([
+            {
+                kind: DiffRowKind.ROW_MODIFIED,
+                left: { line: 1, text: "const user = getUser(id);", ranges: [] },
+                right: {
+                    line: 1,
+                    text: "const users = getUsers(ids);",
+                    ranges: [{ start: 10, length: 1 }, { start: 21, length: 1 }, { start: 25, length: 1 }]
+                }
+            },
+            {
+                kind: DiffRowKind.ROW_MODIFIED,
+                left: { line: 2, text: "return user;", ranges: [] },
+                right: { line: 2, text: "return users;", ranges: [{ start: 11, length: 1 }] }
+            },
+            {
+                kind: DiffRowKind.ROW_ADDED,
+                left: null,
+                right: { line: 3, text: "extra", ranges: [{ start: 0, length: 5 }] }
+            },
+            {
+                kind: DiffRowKind.ROW_EQUAL,
+                left: { line: 3, text: "}", ranges: [] },
+                right: { line: 4, text: "}", ranges: [] }
+            }
+        ]);
+
+        // Unrelated lines are changed as a whole.
+        expect(dmp.diff_intraline([
+            [DiffOperation.DIFF_DELETE, "apple\n"],
+            [DiffOperation.DIFF_INSERT, "zebra\n"]
+        ])).toStrictEqual([
+            {
+                kind: DiffRowKind.ROW_MODIFIED,
+                left: { line: 1, text: "apple", ranges: [{ start: 0, length: 5 }] },
+                right: { line: 1, text: "zebra", ranges: [{ start: 0, length: 5 }] }
+            }
+        ]);
+    });
+
     it("DIFF - Bisect", () =>
     {
         // Normal.
@@ -626,7 +1292,7 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         // Since the resulting diff hasn't been normalized, it would be ok if
         // the insertion and deletion pairs are swapped.
         // If the order changes, tweak this test as required.
-        expect(dmp["diff_bisect_"](a, b, Number.MAX_VALUE)).toStrictEqual([
+        expect(dmp["diff_run_"](dmp["diff_bisectSteps_"](a, b, Number.MAX_VALUE, dmp["diff_budget_"]()))).toStrictEqual([
             [DiffOperation.DIFF_DELETE, "c"],
             [DiffOperation.DIFF_INSERT, "m"],
             [DiffOperation.DIFF_EQUAL, "a"],
@@ -635,7 +1301,7 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         ]);
 
         // Timeout.
-        expect(dmp["diff_bisect_"](a, b, 0)).toStrictEqual([[DiffOperation.DIFF_DELETE, "cat"], [DiffOperation.DIFF_INSERT, "map"]]);
+        expect(dmp["diff_run_"](dmp["diff_bisectSteps_"](a, b, 0, dmp["diff_budget_"]()))).toStrictEqual([[DiffOperation.DIFF_DELETE, "cat"], [DiffOperation.DIFF_INSERT, "map"]]);
     });
 
     it("DIFF - Main", () =>
@@ -805,6 +1471,594 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
             expect(e.message).toEqual("Null input. (diff_main)");
         }
     });
+    it("DIFF - Main Async", async () =>
+    {
+        const timeout = dmp.diffTimeout;
+        dmp.diffTimeout = 0;
+        let text1 = "";
+        let text2 = "";
+        for (let x = 0; x < 300; x++)
+        {
+            text1 += String.fromCharCode(97 + x * 7 % 26);
+            text2 += String.fromCharCode(97 + x * 11 % 26);
+        }
+
+        // Same result as diff_main, with progress of the bisection.
+        const progress: DiffProgress[] = [];
+        let diffs = await dmp.diff_mainAsync(text1, text2, false, { onProgress: (p) => progress.push(p) });
+        expect(diffs).toStrictEqual(dmp.diff_main(text1, text2, false));
+        expect(progress.length).toBeGreaterThan(0);
+        expect(progress[0]).toStrictEqual({ stage: DiffProgressStage.DIFF_BISECT, done: 31, total: 298 });
+
+        // Progress of the line mode.
+        const lines1 = text1.replace(/(.{10})/g, "$1\n");
+        const lines2 = text2.replace(/(.{10})/g, "$1\n");
+        progress.length = 0;
+        diffs = await dmp.diff_mainAsync(lines1, lines2, true, { onProgress: (p) => progress.push(p) });
+        expect(diffs).toStrictEqual(dmp.diff_main(lines1, lines2, true));
+        expect(progress.filter((p) => p.stage === DiffProgressStage.DIFF_LINE_MODE).length).toBeGreaterThan(0);
+
+        // Other tasks run between the slices.
+        let ran = false;
+        setTimeout(() => ran = true, 0);
+        await dmp.diff_mainAsync(text1, text2, false, { sliceLength: 0 });
+        expect(ran).toBe(true);
+
+        // Abort before and while diffing.
+        await expect(dmp.diff_mainAsync(text1, text2, false, { signal: { aborted: true, reason: "gone" } }))
+            .rejects.toEqual("gone");
+        const signal = { aborted: false };
+        await expect(dmp.diff_mainAsync(text1, text2, false, { signal, onProgress: () => signal.aborted = true }))
+            .rejects.toThrow("Aborted. (diff_mainAsync)");
+
+        // No progress after an abort between the slices.
+        const sliceSignal = { aborted: false };
+        const late: boolean[] = [];
+        setTimeout(() => sliceSignal.aborted = true, 0);
+        await expect(dmp.diff_mainAsync(text1, text2, false, {
+            signal: sliceSignal,
+            sliceLength: 0,
+            onProgress: () => late.push(sliceSignal.aborted)
+        })).rejects.toThrow("Aborted. (diff_mainAsync)");
+        expect(late).not.toContain(true);
+
+        // Abort while bisecting the lines of long texts, before any re-diff.
+        let long1 = "";
+        let long2 = "";
+        for (let x = 0; x < 20000; x++)
+        {
+            long1 += `line ${x}\n`;
+            long2 += x % 3 ? `line ${x}\n` : `row ${x}\n`;
+        }
+        const lineSignal = { aborted: false };
+        progress.length = 0;
+        await expect(dmp.diff_mainAsync(long1, long2, true, {
+            signal: lineSignal,
+            onProgress: (p) =>
+            {
+                progress.push(p);
+                lineSignal.aborted = p.stage === DiffProgressStage.DIFF_BISECT;
+            }
+        })).rejects.toThrow("Aborted. (diff_mainAsync)");
+        expect(progress).toStrictEqual([
+            { stage: DiffProgressStage.DIFF_LINE_MODE, done: 0, total: 1 },
+            { stage: DiffProgressStage.DIFF_BISECT, done: 31, total: 19999 }
+        ]);
+
+        // Test null inputs.
+        await expect(dmp.diff_mainAsync(null as any, null as any)).rejects.toThrow("Null input. (diff_main)");
+
+        dmp.diffTimeout = timeout;
+    });
+
+    it("DIFF - Main Async Modes", async () =>
+    {
+        const timeout = dmp.diffTimeout;
+        dmp.diffTimeout = 0;
+        let text1 = "";
+        let text2 = "";
+        for (let x = 0; x < 200; x++)
+        {
+            text1 += `let v${x % 7} = f(${x % 13}, "a b");\n`;
+            text2 += `let v${x % 5} = f(${x % 11}, "a c");\n`;
+        }
+
+        // The same diff as diff_main, whichever the mode.
+        const modes: Array<[DiffAlgorithm, DiffGranularity, boolean]> = [
+            [DiffAlgorithm.DIFF_MYERS, DiffGranularity.DIFF_CHARACTER, true],
+            [DiffAlgorithm.DIFF_PATIENCE, DiffGranularity.DIFF_CHARACTER, true],
+            [DiffAlgorithm.DIFF_HISTOGRAM, DiffGranularity.DIFF_CHARACTER, true],
+            [DiffAlgorithm.DIFF_MYERS, DiffGranularity.DIFF_WORD, false],
+            [DiffAlgorithm.DIFF_MYERS, DiffGranularity.DIFF_CODE, false]
+        ];
+        for (const [algorithm, granularity, checklines] of modes)
+        {
+            dmp.diffAlgorithm = algorithm;
+            dmp.diffGranularity = granularity;
+            expect(await dmp.diff_mainAsync(text1, text2, checklines, { sliceLength: 0 }))
+                .toStrictEqual(dmp.diff_main(text1, text2, checklines));
+        }
+
+        dmp.diffAlgorithm = DiffAlgorithm.DIFF_MYERS;
+        dmp.diffGranularity = DiffGranularity.DIFF_CHARACTER;
+        dmp.diffTimeout = timeout;
+    });
+
+    it("DIFF - Step Budget", () =>
+    {
+        // Out of steps.
+        dmp.diffStepBudget = 4;
+        expect(dmp.diff_main("cat", "map")).toStrictEqual([[DiffOperation.DIFF_DELETE, "cat"], [DiffOperation.DIFF_INSERT, "map"]]);
+        expect(dmp.diff_sequences(["c", "a", "t"], ["m", "a", "p"])).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, ["c", "a", "t"]],
+            [DiffOperation.DIFF_INSERT, ["m", "a", "p"]]
+        ]);
+        expect(dmp["diff_run_"](dmp["diff_bisectSteps_"]("cat", "map", Number.MAX_VALUE, { steps: 0, truncated: false, approximated: [] }))).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, "cat"],
+            [DiffOperation.DIFF_INSERT, "map"]
+        ]);
+
+        // Enough steps.
+        dmp.diffStepBudget = 8;
+        expect(dmp.diff_main("cat", "map")).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, "c"],
+            [DiffOperation.DIFF_INSERT, "m"],
+            [DiffOperation.DIFF_EQUAL, "a"],
+            [DiffOperation.DIFF_DELETE, "t"],
+            [DiffOperation.DIFF_INSERT, "p"]
+        ]);
+
+        // The degraded diff is the same every time, whatever the diffTimeout.
+        let text1 = "";
+        let text2 = "";
+        for (let x = 0; x < 300; x++)
+        {
+            text1 += String.fromCharCode(97 + x * 7 % 26);
+            text2 += String.fromCharCode(97 + x * 11 % 26);
+        }
+        const timeout = dmp.diffTimeout;
+        dmp.diffStepBudget = 1000;
+        dmp.diffTimeout = 0.001;
+        const diffs = dmp.diff_main(text1, text2, false);
+        dmp.diffTimeout = 0;
+        expect(dmp.diff_main(text1, text2, false)).toStrictEqual(diffs);
+        expect(dmp.diff_text1(diffs)).toEqual(text1);
+        expect(dmp.diff_text2(diffs)).toEqual(text2);
+        dmp.diffStepBudget = 0;
+        expect(dmp.diff_main(text1, text2, false)).not.toStrictEqual(diffs);
+        dmp.diffTimeout = timeout;
+    });
+
+    it("DIFF - Main With Info", () =>
+    {
+        // Complete.
+        let info = dmp.diff_mainWithInfo("xxcatyy", "xxmapyy");
+        expect(info.diffs).toStrictEqual(dmp.diff_main("xxcatyy", "xxmapyy"));
+        expect(info.truncated).toBe(false);
+        expect(info.elapsed).toBeGreaterThanOrEqual(0);
+        expect(info.approximated).toStrictEqual([]);
+
+        // Truncated.
+        dmp.diffStepBudget = 4;
+        info = dmp.diff_mainWithInfo("xxcatyy", "xxmapyy");
+        expect(info.diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "xx"],
+            [DiffOperation.DIFF_DELETE, "cat"],
+            [DiffOperation.DIFF_INSERT, "map"],
+            [DiffOperation.DIFF_EQUAL, "yy"]
+        ]);
+        expect(info.truncated).toBe(true);
+        expect(info.approximated).toStrictEqual([{ start1: 2, length1: 3, start2: 2, length2: 3 }]);
+
+        // Both halves of a half match.
+        dmp.diffStepBudget = 2;
+        expect(dmp.diff_mainWithInfo("cat1234567890map", "dog1234567890pam").approximated).toStrictEqual([
+            { start1: 0, length1: 3, start2: 0, length2: 3 },
+            { start1: 13, length1: 3, start2: 13, length2: 3 }
+        ]);
+
+        // Offsets of the words, not of their encoding.
+        dmp.diffGranularity = DiffGranularity.DIFF_WORD;
+        dmp.diffStepBudget = 3;
+        expect(dmp.diff_mainWithInfo("one two three four five", "one 2 three 4 five six").approximated).toStrictEqual([
+            { start1: 4, length1: 19, start2: 4, length2: 18 }
+        ]);
+        dmp.diffGranularity = DiffGranularity.DIFF_CHARACTER;
+        dmp.diffStepBudget = 0;
+    });
+
+    it("DIFF - Ignore Options", () =>
+    {
+        // Case.
+        dmp.diffIgnoreCase = true;
+        expect(dmp.diff_main("Hello World", "hello world!")).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, "H"],
+            [DiffOperation.DIFF_INSERT, "h"],
+            [DiffOperation.DIFF_EQUAL, "ello "],
+            [DiffOperation.DIFF_DELETE, "W"],
+            [DiffOperation.DIFF_INSERT, "w"],
+            [DiffOperation.DIFF_EQUAL, "orld"],
+            [DiffOperation.DIFF_INSERT, "!"]
+        ]);
+        dmp.diffIgnoreCase = false;
+
+        // Amount of whitespace.
+        dmp.diffIgnoreWhitespace = true;
+        expect(dmp.diff_main("if (a)  {\n\treturn b;\n}", "if (a) {\n    return c;\n}")).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "if (a) "],
+            [DiffOperation.DIFF_DELETE, " "],
+            [DiffOperation.DIFF_EQUAL, "{\n"],
+            [DiffOperation.DIFF_DELETE, "\t"],
+            [DiffOperation.DIFF_INSERT, "    "],
+            [DiffOperation.DIFF_EQUAL, "return "],
+            [DiffOperation.DIFF_DELETE, "b"],
+            [DiffOperation.DIFF_INSERT, "c"],
+            [DiffOperation.DIFF_EQUAL, ";\n}"]
+        ]);
+        // Line breaks are not whitespace to ignore.
+        expect(dmp.diff_main("a b", "a\nb")).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "a"],
+            [DiffOperation.DIFF_DELETE, " "],
+            [DiffOperation.DIFF_INSERT, "\n"],
+            [DiffOperation.DIFF_EQUAL, "b"]
+        ]);
+        dmp.diffIgnoreWhitespace = false;
+
+        // Line endings.
+        dmp.diffIgnoreLineEndings = true;
+        expect(dmp.diff_main("one\r\ntwo\rthree", "one\ntwo\nfour")).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "one"],
+            [DiffOperation.DIFF_DELETE, "\r"],
+            [DiffOperation.DIFF_EQUAL, "\ntwo"],
+            [DiffOperation.DIFF_DELETE, "\rth"],
+            [DiffOperation.DIFF_INSERT, "\nfou"],
+            [DiffOperation.DIFF_EQUAL, "r"],
+            [DiffOperation.DIFF_DELETE, "ee"]
+        ]);
+
+        // Whole words in word mode.
+        dmp.diffIgnoreCase = true;
+        dmp.diffGranularity = DiffGranularity.DIFF_WORD;
+        expect(dmp.diff_main("Hello big World", "hello small world")).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, "Hello"],
+            [DiffOperation.DIFF_INSERT, "hello"],
+            [DiffOperation.DIFF_EQUAL, " "],
+            [DiffOperation.DIFF_DELETE, "big"],
+            [DiffOperation.DIFF_INSERT, "small"],
+            [DiffOperation.DIFF_EQUAL, " "],
+            [DiffOperation.DIFF_DELETE, "World"],
+            [DiffOperation.DIFF_INSERT, "world"]
+        ]);
+        dmp.diffGranularity = DiffGranularity.DIFF_CHARACTER;
+
+        // Both texts are rebuilt, approximated regions are in the originals.
+        dmp.diffIgnoreWhitespace = true;
+        dmp.diffStepBudget = 4;
+        const text1 = "XX\r\n  catyy";
+        const text2 = "xx\n mapyy";
+        const info = dmp.diff_mainWithInfo(text1, text2);
+        expect(dmp.diff_text1(info.diffs)).toEqual(text1);
+        expect(dmp.diff_text2(info.diffs)).toEqual(text2);
+        expect(info.approximated).toStrictEqual([{ start1: 6, length1: 3, start2: 4, length2: 3 }]);
+        dmp.diffStepBudget = 0;
+        dmp.diffIgnoreWhitespace = false;
+        dmp.diffIgnoreCase = false;
+        dmp.diffIgnoreLineEndings = false;
+    });
+
+    it("DIFF - Line Mode", () =>
+    {
+        // More than 65535 unique lines are diffed as arrays of line indices.
+        const timeout = dmp.diffTimeout;
+        dmp.diffTimeout = 0;
+        const lineList1 = [];
+        const lineList2 = [];
+        for (let i = 0; i < 70000; i++)
+        {
+            lineList1[i] = i + "\n";
+            lineList2[i] = (i % 7000 === 3500 ? "changed " : "") + i + "\n";
+        }
+        const text1 = lineList1.join("");
+        const text2 = lineList2.join("");
+        const diffs = dmp.diff_main(text1, text2, true);
+        expect(dmp.diff_text1(diffs)).toEqual(text1);
+        expect(dmp.diff_text2(diffs)).toEqual(text2);
+        expect(dmp.diff_levenshtein(diffs)).toBe(10 * "changed ".length);
+        dmp.diffTimeout = timeout;
+    });
+
+    it("DIFF - Patience", () =>
+    {
+        const timeout = dmp.diffTimeout;
+        dmp.diffTimeout = 0;
+        const text1 = "void f0()\n{\n    return;\n    i++;\n    if (i)\n}\n\n"
+            + "void f1()\n{\n    return;\n}\n\n"
+            + "void f2()\n{\n    i++;\n\n    if (i)\n}\n\n";
+        const text2 = "void g()\n{\n    if (i)\n    }\n    if (i)\n}\n\n"
+            + "void f0()\n{\n    return;\n    i++;\n    if (i)\n}\n\n"
+            + "void f1()\n{\n    return;\n}\n\n";
+
+        // Myers matches up the braces and statements of unrelated functions.
+        const myers = dmp.diff_main(text1, text2, true);
+        expect(myers.length).toBeGreaterThan(3);
+        expect(dmp.diff_text1(myers)).toEqual(text1);
+        expect(dmp.diff_text2(myers)).toEqual(text2);
+
+        // Patience anchors on the unique lines of f0 and f1.
+        dmp.diffAlgorithm = DiffAlgorithm.DIFF_PATIENCE;
+        expect(dmp.diff_main(text1, text2, true)).toStrictEqual([
+            [DiffOperation.DIFF_INSERT, "void g()\n{\n    if (i)\n    }\n    if (i)\n}\n\n"],
+            [DiffOperation.DIFF_EQUAL, "void f0()\n{\n    return;\n    i++;\n    if (i)\n}\n\nvoid f1()\n{\n    return;\n}\n\n"],
+            [DiffOperation.DIFF_DELETE, "void f2()\n{\n    i++;\n\n    if (i)\n}\n\n"]
+        ]);
+
+        // Lines without anchors fall back to bisection.
+        expect(dmp["diff_run_"](dmp["diff_tokensSteps_"]([1, 2, 1, 3], [2, 1, 2, 3], 4, Number.MAX_VALUE, dmp["diff_budget_"]()))).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, [1]],
+            [DiffOperation.DIFF_EQUAL, [2, 1]],
+            [DiffOperation.DIFF_INSERT, [2]],
+            [DiffOperation.DIFF_EQUAL, [3]]
+        ]);
+
+        dmp.diffAlgorithm = DiffAlgorithm.DIFF_MYERS;
+        dmp.diffTimeout = timeout;
+    });
+
+    it("DIFF - Histogram", () =>
+    {
+        const timeout = dmp.diffTimeout;
+        dmp.diffTimeout = 0;
+        dmp.diffAlgorithm = DiffAlgorithm.DIFF_HISTOGRAM;
+        const text1 = "void f0()\n{\n    return;\n    i++;\n    if (i)\n}\n\n"
+            + "void f1()\n{\n    return;\n}\n\n"
+            + "void f2()\n{\n    i++;\n\n    if (i)\n}\n\n";
+        const text2 = "void g()\n{\n    if (i)\n    }\n    if (i)\n}\n\n"
+            + "void f0()\n{\n    return;\n    i++;\n    if (i)\n}\n\n"
+            + "void f1()\n{\n    return;\n}\n\n";
+        const diffs = dmp.diff_main(text1, text2, true);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_INSERT, "void g()\n{\n    if (i)\n    }\n    if (i)\n}\n\n"],
+            [DiffOperation.DIFF_EQUAL, "void f0()\n{\n    return;\n    i++;\n    if (i)\n}\n\nvoid f1()\n{\n    return;\n}\n\n"],
+            [DiffOperation.DIFF_DELETE, "void f2()\n{\n    i++;\n\n    if (i)\n}\n\n"]
+        ]);
+
+        // The result can be post-processed like any other diff.
+        dmp.diff_cleanupSemantic(diffs);
+        dmp.diff_cleanupEfficiency(diffs);
+        expect(dmp.diff_text1(diffs)).toEqual(text1);
+        expect(dmp.diff_text2(diffs)).toEqual(text2);
+
+        // The rarest lines win over longer runs of frequent lines.
+        const histogram = dmp["diff_histogramState_"](10, 6);
+        expect(dmp["diff_histogramRegion_"]([9, 9, 1, 2, 9, 9], [1, 2, 9, 9, 9, 9], 0, 6, 0, 6, histogram)).toStrictEqual([2, 0, 4]);
+        expect(dmp["diff_histogramRegion_"]([1, 2], [3, 4], 0, 2, 0, 2, histogram)).toBeNull();
+
+        // Only the ranges count, and the histogram is left empty.
+        expect(dmp["diff_histogramRegion_"]([9, 9, 1, 2, 9, 9], [1, 2, 9, 9, 9, 9], 3, 6, 2, 6, histogram)).toStrictEqual([4, 2, 2]);
+        expect(histogram.counts).toStrictEqual([0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+        // Parts without common lines fall back to bisection.
+        expect(dmp["diff_run_"](dmp["diff_tokensSteps_"]([5, 6, 5, 7, 8], [9, 5, 7, 8, 5], 10, Number.MAX_VALUE, dmp["diff_budget_"]()))).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, [5, 6]],
+            [DiffOperation.DIFF_INSERT, [9]],
+            [DiffOperation.DIFF_EQUAL, [5, 7, 8]],
+            [DiffOperation.DIFF_INSERT, [5]]
+        ]);
+
+        // Long texts, with as many parts as changed lines.
+        let long1 = "";
+        let long2 = "";
+        for (let x = 0; x < 20000; x++)
+        {
+            long1 += `line ${x}\n`;
+            long2 += x % 13 ? `line ${x}\n` : `row ${x}\n`;
+        }
+        const longDiffs = dmp.diff_main(long1, long2, true);
+        expect(longDiffs.filter((diff) => diff[0] === DiffOperation.DIFF_DELETE).length).toEqual(1539);
+        expect(dmp.diff_text1(longDiffs)).toEqual(long1);
+        expect(dmp.diff_text2(longDiffs)).toEqual(long2);
+
+        // Matching them up spends the steps.
+        dmp.diffStepBudget = 100000;
+        const info = dmp.diff_mainWithInfo(long1, long2, true);
+        expect(info.truncated).toBe(true);
+        expect(info.diffs.length).toBeLessThan(longDiffs.length);
+        expect(dmp.diff_text1(info.diffs)).toEqual(long1);
+        expect(dmp.diff_text2(info.diffs)).toEqual(long2);
+        dmp.diffStepBudget = 0;
+
+        dmp.diffAlgorithm = DiffAlgorithm.DIFF_MYERS;
+        dmp.diffTimeout = timeout;
+    });
+
+    it("DIFF - Surrogate Safe", () =>
+    {
+        // Code units by default.
+        expect(dmp.diff_commonPrefix("\uD83D\uDE00", "\uD83D\uDE01")).toEqual(1);
+        expect(dmp.diff_commonSuffix("\uD83D\uDE00", "\uD83C\uDE00")).toEqual(1);
+        expect(dmp.diff_main("I \uD83D\uDE00 you", "I \uD83D\uDE01 you", false)).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "I \uD83D"],
+            [DiffOperation.DIFF_DELETE, "\uDE00"],
+            [DiffOperation.DIFF_INSERT, "\uDE01"],
+            [DiffOperation.DIFF_EQUAL, " you"]
+        ]);
+        expect(() => dmp.diff_toDelta([
+            [DiffOperation.DIFF_EQUAL, "I \uD83D"],
+            [DiffOperation.DIFF_INSERT, "\uDE01"]
+        ])).toThrow(URIError);
+
+        dmp.surrogateSafe = true;
+
+        // Common prefix and suffix.
+        expect(dmp.diff_commonPrefix("\uD83D\uDE00", "\uD83D\uDE01")).toEqual(0);
+        expect(dmp.diff_commonPrefix("a\uD83D\uDE00b", "a\uD83D\uDE00c")).toEqual(3);
+        expect(dmp.diff_commonSuffix("\uD83D\uDE00", "\uD83C\uDE00")).toEqual(0);
+        expect(dmp.diff_commonSuffix("a\uD83D\uDE00", "b\uD83D\uDE00")).toEqual(2);
+
+        // Repair of cut pairs.
+        let diffs: Diff[] = [
+            [DiffOperation.DIFF_EQUAL, "a\uD83D"],
+            [DiffOperation.DIFF_INSERT, "\uDE01\uD83D"],
+            [DiffOperation.DIFF_EQUAL, "\uDE00b"]
+        ];
+        dmp["diff_cleanupSurrogates_"](diffs);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "a"],
+            [DiffOperation.DIFF_DELETE, "\uD83D\uDE00"],
+            [DiffOperation.DIFF_INSERT, "\uD83D\uDE01\uD83D\uDE00"],
+            [DiffOperation.DIFF_EQUAL, "b"]
+        ]);
+
+        // Lossless shifts step over whole pairs.
+        diffs = [[DiffOperation.DIFF_EQUAL, "a"], [DiffOperation.DIFF_INSERT, "\uD83D\uDE00"], [DiffOperation.DIFF_EQUAL, "\uD83D\uDE01"]];
+        dmp.diff_cleanupSemanticLossless(diffs);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "a"],
+            [DiffOperation.DIFF_INSERT, "\uD83D\uDE00"],
+            [DiffOperation.DIFF_EQUAL, "\uD83D\uDE01"]
+        ]);
+
+        // Diff and delta.
+        diffs = dmp.diff_main("I \uD83D\uDE00 you", "I \uD83D\uDE01 you", false);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "I "],
+            [DiffOperation.DIFF_DELETE, "\uD83D\uDE00"],
+            [DiffOperation.DIFF_INSERT, "\uD83D\uDE01"],
+            [DiffOperation.DIFF_EQUAL, " you"]
+        ]);
+        expect(dmp.diff_toDelta(diffs)).toEqual("=2\t-2\t+%F0%9F%98%81\t=4");
+        expect(dmp.diff_fromDelta("I \uD83D\uDE00 you", "=2\t-2\t+%F0%9F%98%81\t=4")).toStrictEqual(diffs);
+        expect(dmp.diff_toDelta([
+            [DiffOperation.DIFF_EQUAL, "I \uD83D"],
+            [DiffOperation.DIFF_DELETE, "\uDE00"],
+            [DiffOperation.DIFF_INSERT, "\uDE01"]
+        ])).toEqual("=2\t-2\t+%F0%9F%98%81");
+
+        // Emoji heavy texts never produce a lone surrogate.
+        const cut = /^[\uDC00-\uDFFF]|[\uD800-\uDBFF]$/;
+        const text1 = "I \uD83D\uDE00 like \uD83C\uDF55 and \uD83C\uDF7A on \uD83C\uDFD6\uFE0F days \uD83D\uDC4D\uD83C\uDFFD";
+        const text2 = "I \uD83D\uDE01 like \uD83C\uDF54 and \uD83C\uDF77 on \uD83C\uDFD4\uFE0F nights \uD83D\uDC4D\uD83C\uDFFF!";
+        diffs = dmp.diff_main(text1, text2);
+        expect(diffs.filter((diff) => cut.test(diff[1]))).toStrictEqual([]);
+        dmp.diff_cleanupSemantic(diffs);
+        dmp.diff_cleanupEfficiency(diffs);
+        expect(diffs.filter((diff) => cut.test(diff[1]))).toStrictEqual([]);
+        expect(dmp.diff_text1(diffs)).toEqual(text1);
+        expect(dmp.diff_text2(diffs)).toEqual(text2);
+        expect(dmp.diff_fromDelta(text1, dmp.diff_toDelta(diffs))).toStrictEqual(diffs);
+
+        dmp.surrogateSafe = false;
+    });
+
+    it("DIFF - Sequences", () =>
+    {
+        // Null case.
+        expect(dmp.diff_sequences([], [])).toStrictEqual([]);
+
+        // Equality.
+        expect(dmp.diff_sequences([1, 2, 3], [1, 2, 3])).toStrictEqual([[DiffOperation.DIFF_EQUAL, [1, 2, 3]]]);
+
+        // Simple insertion and deletion.
+        expect(dmp.diff_sequences([1, 2, 3, 4], [1, 5, 3, 4, 6])).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, [1]],
+            [DiffOperation.DIFF_DELETE, [2]],
+            [DiffOperation.DIFF_INSERT, [5]],
+            [DiffOperation.DIFF_EQUAL, [3, 4]],
+            [DiffOperation.DIFF_INSERT, [6]]
+        ]);
+
+        // Same result as diff_main on the equivalent strings.
+        const timeout = dmp.diffTimeout;
+        dmp.diffTimeout = 0;
+        expect(dmp.diff_sequences("Apples are a fruit.".split(""), "Bananas are also fruit.".split(""))
+            .map(([op, chars]) => [op, chars.join("")])).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, "Apple"],
+            [DiffOperation.DIFF_INSERT, "Banana"],
+            [DiffOperation.DIFF_EQUAL, "s are a"],
+            [DiffOperation.DIFF_INSERT, "lso"],
+            [DiffOperation.DIFF_EQUAL, " fruit."]
+        ]);
+        dmp.diffTimeout = timeout;
+
+        // Custom equality.
+        const rows1 = [{ id: 1, name: "a" }, { id: 2, name: "b" }, { id: 3, name: "c" }];
+        const rows2 = [{ id: 1, name: "a" }, { id: 3, name: "c" }, { id: 4, name: "d" }];
+        expect(dmp.diff_sequences(rows1, rows2, (a, b) => a.id === b.id)).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, [rows1[0]]],
+            [DiffOperation.DIFF_DELETE, [rows1[1]]],
+            [DiffOperation.DIFF_EQUAL, [rows1[2]]],
+            [DiffOperation.DIFF_INSERT, [rows2[2]]]
+        ]);
+
+        // Test null inputs.
+        expect(() => dmp.diff_sequences(null as any, [])).toThrow("Null input. (diff_sequences)");
+    });
+
+    it("DIFF - Sequence Cleanup Merge", () =>
+    {
+        // Cleanup a messy sequence diff.
+
+        // Null case.
+        let diffs: Array<SequenceDiff<string>> = [];
+        dmp.diff_sequenceCleanupMerge(diffs);
+        expect(diffs).toStrictEqual([]);
+
+        // Merge equalities.
+        diffs = [[DiffOperation.DIFF_EQUAL, ["a"]], [DiffOperation.DIFF_EQUAL, ["b"]], [DiffOperation.DIFF_EQUAL, ["c"]]];
+        dmp.diff_sequenceCleanupMerge(diffs);
+        expect(diffs).toStrictEqual([[DiffOperation.DIFF_EQUAL, ["a", "b", "c"]]]);
+
+        // Merge interweave.
+        diffs = [
+            [DiffOperation.DIFF_DELETE, ["a"]],
+            [DiffOperation.DIFF_INSERT, ["b"]],
+            [DiffOperation.DIFF_DELETE, ["c"]],
+            [DiffOperation.DIFF_INSERT, ["d"]],
+            [DiffOperation.DIFF_EQUAL, ["e"]],
+            [DiffOperation.DIFF_EQUAL, ["f"]]
+        ];
+        dmp.diff_sequenceCleanupMerge(diffs);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, ["a", "c"]],
+            [DiffOperation.DIFF_INSERT, ["b", "d"]],
+            [DiffOperation.DIFF_EQUAL, ["e", "f"]]
+        ]);
+
+        // Prefix and suffix detection with equalities.
+        diffs = [
+            [DiffOperation.DIFF_EQUAL, ["x"]],
+            [DiffOperation.DIFF_DELETE, ["a"]],
+            [DiffOperation.DIFF_INSERT, ["a", "b", "c"]],
+            [DiffOperation.DIFF_DELETE, ["d", "c"]],
+            [DiffOperation.DIFF_EQUAL, ["y"]]
+        ];
+        dmp.diff_sequenceCleanupMerge(diffs);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, ["x", "a"]],
+            [DiffOperation.DIFF_DELETE, ["d"]],
+            [DiffOperation.DIFF_INSERT, ["b"]],
+            [DiffOperation.DIFF_EQUAL, ["c", "y"]]
+        ]);
+
+        // Slide edit left.
+        diffs = [[DiffOperation.DIFF_EQUAL, ["a"]], [DiffOperation.DIFF_INSERT, ["b", "a"]], [DiffOperation.DIFF_EQUAL, ["c"]]];
+        dmp.diff_sequenceCleanupMerge(diffs);
+        expect(diffs).toStrictEqual([[DiffOperation.DIFF_INSERT, ["a", "b"]], [DiffOperation.DIFF_EQUAL, ["a", "c"]]]);
+
+        // Slide edit right.
+        diffs = [[DiffOperation.DIFF_EQUAL, ["c"]], [DiffOperation.DIFF_INSERT, ["a", "b"]], [DiffOperation.DIFF_EQUAL, ["a"]]];
+        dmp.diff_sequenceCleanupMerge(diffs);
+        expect(diffs).toStrictEqual([[DiffOperation.DIFF_EQUAL, ["c", "a"]], [DiffOperation.DIFF_INSERT, ["b", "a"]]]);
+
+        // Custom equality.
+        diffs = [[DiffOperation.DIFF_DELETE, ["A", "x"]], [DiffOperation.DIFF_INSERT, ["a", "y"]]];
+        dmp.diff_sequenceCleanupMerge(diffs, (a, b) => a.toLowerCase() === b.toLowerCase());
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, ["a"]],
+            [DiffOperation.DIFF_DELETE, ["x"]],
+            [DiffOperation.DIFF_INSERT, ["y"]]
+        ]);
+    });
     //#endregion DIFF TEST FUNCTIONS
 
     //#region MATCH TEST FUNCTIONS
@@ -898,6 +2152,43 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
             expect(e.message).toEqual("Null input. (match_main)");
         }
     });
+
+    it("MATCH - Close Matches", () =>
+    {
+        // Null case.
+        expect(dmp.match_closeMatches("abc", [])).toStrictEqual([]);
+
+        // Most similar first, below the cutoff left out.
+        expect(dmp.match_closeMatches("appel", ["ape", "apple", "peach", "puppy"])).toStrictEqual([
+            { text: "apple", index: 1, ratio: 0.8 },
+            { text: "ape", index: 0, ratio: 0.75 }
+        ]);
+
+        // Limit, ties in the order of the candidates.
+        expect(dmp.match_closeMatches("wheel", ["wheels", "while", "wheel", "wheelz"], { limit: 2 })).toStrictEqual([
+            { text: "wheel", index: 2, ratio: 1 },
+            { text: "wheels", index: 0, ratio: 10 / 11 }
+        ]);
+        expect(dmp.match_closeMatches("wheel", ["wheels", "while"], { cutoff: 0, limit: 0 })).toStrictEqual([]);
+
+        // Cutoff.
+        expect(dmp.match_closeMatches("abcd", ["abxy", "wxyz"], { cutoff: 0 })).toStrictEqual([
+            { text: "abxy", index: 0, ratio: 0.5 },
+            { text: "wxyz", index: 1, ratio: 0 }
+        ]);
+
+        // Test null inputs.
+        try
+        {
+            dmp.match_closeMatches(null as any, null as any);
+            fail("Should generates error of null inputs");
+        }
+        catch (e: any)
+        {
+            // Exception expected.
+            expect(e.message).toEqual("Null input. (match_closeMatches)");
+        }
+    });
     //#endregion MATCH TEST FUNCTIONS
 
     //#region PATCH TEST FUNCTIONS
@@ -938,6 +2229,37 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         expect(strp).toEqual(dmp.patch_toText(p));
     });
 
+    it("PATCH - To Ansi", () =>
+    {
+        // Null case.
+        expect(dmp.patch_toAnsi([])).toStrictEqual("");
+
+        const patches = dmp.patch_make("The quick brown fox jumps.", "The quick red fox leaps.");
+        expect(dmp.patch_toAnsi(patches)).toStrictEqual(
+            "\x1b[36m@@ -7,20 +7,18 @@\x1b[0m\n"
+            + "ick \x1b[31mbrown\x1b[0m\x1b[32mred\x1b[0m fox \x1b[31mjum\x1b[0m\x1b[32mlea\x1b[0mps.\n"
+        );
+        expect(dmp.patch_toAnsi(patches, { color: false })).toStrictEqual(
+            "@@ -7,20 +7,18 @@\nick [-brown-]{+red+} fox [-jum-]{+lea+}ps.\n"
+        );
+
+        // Line numbers, counted in the text the patches are meant for.
+        const text1 = "one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\n";
+        const text2 = "one\ntwo\n2.5\nthree\nfour\nfive\nsix\nseven\neight\nnine\nTEN\n";
+        const linePatches = dmp.patch_make(text1, text2);
+        expect(dmp.patch_toAnsi(linePatches, { color: false, lineNumbers: true }, text1)).toStrictEqual(
+            "@@ -1,16 +1,20 @@\n"
+            + " 1  1 | one\n"
+            + " 2  2 | two\n"
+            + "    3 | {+2.5+}\n"
+            + " 3  4 | three\n"
+            + " 4  5 | fo\n"
+            + "@@ -46,8 +46,8 @@\n"
+            + " 9 10 | ine\n"
+            + "10 11 | [-ten-]{+TEN+}\n"
+        );
+    });
+
     it("PATCH - Add Context", () =>
     {
         dmp.patchMargin = 4;
@@ -1063,6 +2385,41 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         ).toEqual(dmp.patch_toText(patches));
     });
 
+    it("PATCH - Surrogate Safe", () =>
+    {
+        let text1 = "\uD83C\uDF55\uD83C\uDF55\uD83C\uDF55ax\uD83C\uDF55\uD83C\uDF55\uD83C\uDF55";
+        let text2 = "\uD83C\uDF55\uD83C\uDF55\uD83C\uDF55ay\uD83C\uDF55\uD83C\uDF55\uD83C\uDF55";
+        let patches = dmp.patch_make(text1, text2);
+        expect(() => dmp.patch_toText(patches)).toThrow(URIError);
+
+        dmp.surrogateSafe = true;
+
+        // The context grows rather than cut through a pair.
+        patches = dmp.patch_make(text1, text2);
+        expect(dmp.patch_toText(patches)).toEqual(
+            "@@ -3,10 +3,10 @@\n %F0%9F%8D%95%F0%9F%8D%95a\n-x\n+y\n %F0%9F%8D%95%F0%9F%8D%95\n"
+        );
+
+        // Split max.
+        text1 = "a" + Array(21).join("\uD83D\uDE00");
+        text2 = "a" + Array(21).join("\uD83D\uDE01");
+        patches = dmp.patch_make(text1, text2);
+        dmp.patch_splitMax(patches);
+        const text = dmp.patch_toText(patches);
+        expect(dmp.patch_apply(dmp.patch_fromText(text), text1)).toStrictEqual([text2, [true, true, true]]);
+
+        dmp.surrogateSafe = false;
+    });
+
+    it("PATCH - Graphemes", () =>
+    {
+        // The context grows rather than cut through a grapheme.
+        dmp.diffGranularity = DiffGranularity.DIFF_GRAPHEME;
+        const patches = dmp.patch_make("e\u0301e\u0301e\u0301ax", "e\u0301e\u0301e\u0301ay");
+        expect(dmp.patch_toText(patches)).toEqual("@@ -3,6 +3,6 @@\n e%CC%81e%CC%81a\n-x\n+y\n");
+        dmp.diffGranularity = DiffGranularity.DIFF_CHARACTER;
+    });
+
     it("PATCH - Add Padding", () =>
     {
         // Both edges full.
@@ -1161,5 +2518,260 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         results = dmp.patch_apply(patches, "x");
         expect(["x123", [true]]).toStrictEqual(results);
     });
+
+    it("PATCH - To Unified", () =>
+    {
+        // Null case.
+        expect(dmp.patch_toUnified([])).toEqual("");
+        expect(dmp.patch_toUnified([[DiffOperation.DIFF_EQUAL, "a\nb\n"]])).toEqual("");
+
+        // Lines touched by a character diff change as a whole.
+        let diffs: Diff[] = [
+            [DiffOperation.DIFF_EQUAL, "a\n"],
+            [DiffOperation.DIFF_DELETE, "b"],
+            [DiffOperation.DIFF_INSERT, "B"],
+            [DiffOperation.DIFF_EQUAL, "\nc\nd\ne\nf\ng\nh\ni\nj\n"],
+            [DiffOperation.DIFF_DELETE, "k\n"],
+            [DiffOperation.DIFF_EQUAL, "l\n"],
+            [DiffOperation.DIFF_INSERT, "m\n"]
+        ];
+        expect(dmp.patch_toUnified(diffs)).toEqual(
+            "--- a\n+++ b\n"
+            + "@@ -1,5 +1,5 @@\n a\n-b\n+B\n c\n d\n e\n"
+            + "@@ -8,5 +8,5 @@\n h\n i\n j\n-k\n l\n+m\n"
+        );
+
+        // Context lines and file names.
+        expect(dmp.patch_toUnified(diffs, { fileName1: "old.txt", fileName2: "new.txt", context: 0 })).toEqual(
+            "--- old.txt\n+++ new.txt\n"
+            + "@@ -2 +2 @@\n-b\n+B\n"
+            + "@@ -11 +10,0 @@\n-k\n"
+            + "@@ -12,0 +12 @@\n+m\n"
+        );
+        expect(dmp.patch_toUnified(diffs, { context: 5 })).toEqual(
+            "--- a\n+++ b\n"
+            + "@@ -1,12 +1,12 @@\n a\n-b\n+B\n c\n d\n e\n f\n g\n h\n i\n j\n-k\n l\n+m\n"
+        );
+
+        // No newline at end of file.
+        diffs = [
+            [DiffOperation.DIFF_EQUAL, "a\nb"],
+            [DiffOperation.DIFF_INSERT, "\n"]
+        ];
+        expect(dmp.patch_toUnified(diffs)).toEqual(
+            "--- a\n+++ b\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+b\n"
+        );
+    });
+
+    it("PATCH - Make Unified", () =>
+    {
+        expect(dmp.patch_makeUnified("a\nb\nc\n", "a\nb\nc\n")).toEqual("");
+        expect(dmp.patch_makeUnified("", "a\n")).toEqual("--- a\n+++ b\n@@ -0,0 +1 @@\n+a\n");
+        expect(dmp.patch_makeUnified("one\ntwo\nthree\n", "one\nthree\nfour", { context: 1 })).toEqual(
+            "--- a\n+++ b\n"
+            + "@@ -1,3 +1,3 @@\n one\n-two\n three\n+four\n\\ No newline at end of file\n"
+        );
+
+        // Test null inputs.
+        try
+        {
+            dmp.patch_makeUnified(null as any, null as any);
+            fail("Should generates error of null inputs");
+        }
+        catch (e: any)
+        {
+            // Exception expected.
+            expect(e.message).toEqual("Null input. (patch_makeUnified)");
+        }
+    });
+
+    it("PATCH - From Unified", () =>
+    {
+        // Null case.
+        expect(dmp.patch_fromUnified("")).toStrictEqual([]);
+
+        const text1 = "one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\n";
+        const text2 = "one\ntwo\nthree\nfour\nFIVE\nsix\nseven\neight\nnine\nten";
+        const patch = "diff --git a/numbers.txt b/numbers.txt\n"
+            + "index 3b18e51..a8c3b22 100644\n"
+            + "--- a/numbers.txt\n"
+            + "+++ b/numbers.txt\n"
+            + "@@ -2,7 +2,7 @@ one\n two\n three\n four\n-five\n+FIVE\n six\n seven\n eight\n"
+            + "@@ -10 +10 @@ nine\n-ten\n+ten\n\\ No newline at end of file\n";
+        let patches = dmp.patch_fromUnified(patch, text1);
+        expect(patches.map((p) => p.toString())).toEqual([
+            "@@ -5,36 +5,36 @@\n two%0Athree%0Afour%0A\n-five\n+FIVE\n %0Asix%0Aseven%0Aeight%0A\n",
+            "@@ -46,4 +46,3 @@\n ten\n-%0A\n"
+        ]);
+        expect(dmp.patch_apply(patches, text1)).toEqual([text2, [true, true]]);
+
+        // Apply to drifted text, locating the hunks from the patch alone.
+        patches = dmp.patch_fromUnified(patch);
+        expect(dmp.patch_apply(patches, "zero\n" + text1.replace("seven", "SEVEN"))).toEqual(
+            ["zero\n" + text2.replace("seven", "SEVEN"), [true, true]]
+        );
+
+        // A patch without headers, with an empty context line.
+        patches = dmp.patch_fromUnified("@@ -1,3 +1,2 @@\n a\n\n-b\n");
+        expect(dmp.patch_apply(patches, "a\n\nb\n")).toEqual(["a\n\n", [true]]);
+
+        // Test invalid inputs.
+        try
+        {
+            dmp.patch_fromUnified("@@ -1 +1 @@\n-a\n");
+            fail("Should generates error of invalid inputs");
+        }
+        catch (e: any)
+        {
+            // Exception expected.
+            expect(e.message).toEqual("Invalid patch string, truncated hunk: @@ -1 +1 @@");
+        }
+        try
+        {
+            dmp.patch_fromUnified("@@ -1 +1 @@\n*a\n+b\n");
+            fail("Should generates error of invalid inputs");
+        }
+        catch (e: any)
+        {
+            // Exception expected.
+            expect(e.message).toEqual('Invalid patch mode "*" in: *a');
+        }
+        try
+        {
+            dmp.patch_fromUnified(patch + patch);
+            fail("Should generates error of invalid inputs");
+        }
+        catch (e: any)
+        {
+            // Exception expected.
+            expect(e.message).toEqual("Invalid patch string, more than one file: diff --git a/numbers.txt b/numbers.txt");
+        }
+    });
     //#endregion PATCH TEST FUNCTIONS
+
+    //#region MERGE TEST FUNCTIONS
+    it("MERGE - Merge3", () =>
+    {
+        // Null case.
+        expect(dmp.merge3("", "", "")).toStrictEqual({ conflict: false, regions: [] });
+
+        // Edits of both sides.
+        expect(dmp.merge3("The quick brown fox.", "The slow brown fox.", "The quick brown dog.")).toStrictEqual({
+            conflict: false,
+            regions: [
+                {
+                    conflict: false,
+                    text: "The slow brown dog.",
+                    base: "The quick brown fox.",
+                    ours: "The slow brown fox.",
+                    theirs: "The quick brown dog."
+                }
+            ]
+        });
+
+        // The same edit on both sides.
+        expect(dmp.merge3("one\ntwo\nthree\n", "one\n2\nthree\n", "one\n2\nthree\nfour\n").regions).toStrictEqual([
+            {
+                conflict: false,
+                text: "one\n2\nthree\nfour\n",
+                base: "one\ntwo\nthree\n",
+                ours: "one\n2\nthree\n",
+                theirs: "one\n2\nthree\nfour\n"
+            }
+        ]);
+
+        // Overlapping edits.
+        expect(dmp.merge3("The quick brown fox.", "The quick red fox.", "The quick green fox.")).toStrictEqual({
+            conflict: true,
+            regions: [
+                { conflict: false, text: "The quick ", base: "The quick ", ours: "The quick ", theirs: "The quick " },
+                { conflict: true, text: "", base: "brown", ours: "red", theirs: "green" },
+                { conflict: false, text: " fox.", base: " fox.", ours: " fox.", theirs: " fox." }
+            ]
+        });
+
+        // Insertions at the same place.
+        expect(dmp.merge3("", "a", "b").regions).toStrictEqual([
+            { conflict: true, text: "", base: "", ours: "a", theirs: "b" }
+        ]);
+
+        // Test null inputs.
+        try
+        {
+            dmp.merge3(null as any, "", "");
+            fail("Should generates error of null inputs");
+        }
+        catch (e: any)
+        {
+            // Exception expected.
+            expect(e.message).toEqual("Null input. (merge3)");
+        }
+    });
+
+    it("MERGE - Resolve", () =>
+    {
+        const result = dmp.merge3(
+            "The quick brown fox.\nJumps over\nthe lazy dog.\n",
+            "The quick red fox.\nJumps over\nthe lazy dog!\n",
+            "The quick green fox.\nJumps over\nthe lazy dog.\n"
+        );
+        expect(dmp.merge_resolve(result, MergeStrategy.MERGE_OURS)).toEqual("The quick red fox.\nJumps over\nthe lazy dog!\n");
+        expect(dmp.merge_resolve(result, MergeStrategy.MERGE_THEIRS)).toEqual("The quick green fox.\nJumps over\nthe lazy dog!\n");
+        expect(dmp.merge_resolve(result, MergeStrategy.MERGE_LONGER)).toEqual("The quick green fox.\nJumps over\nthe lazy dog!\n");
+        // Whole lines of both sides.
+        expect(dmp.merge_resolve(result, MergeStrategy.MERGE_UNION))
+            .toEqual("The quick red fox.\nThe quick green fox.\nJumps over\nthe lazy dog!\n");
+        expect(dmp.merge_resolve(dmp.merge3("a b c", "a x c", "a y c"), MergeStrategy.MERGE_UNION)).toEqual("a x c\na y c");
+    });
+
+    it("MERGE - Markers", () =>
+    {
+        let result = dmp.merge3(
+            "The quick brown fox.\nJumps over\nthe lazy dog.\n",
+            "The quick red fox.\nJumps over\nthe lazy dog!\n",
+            "The quick green fox.\nJumps over\nthe lazy cat.\n"
+        );
+        let text = dmp.merge_toMarkers(result);
+        expect(text).toEqual(
+            "<<<<<<< ours\nThe quick red fox.\n=======\nThe quick green fox.\n>>>>>>> theirs\n"
+            + "Jumps over\n"
+            + "<<<<<<< ours\nthe lazy dog!\n=======\nthe lazy cat.\n>>>>>>> theirs\n"
+        );
+        expect(dmp.merge_fromMarkers(text)).toStrictEqual({
+            conflict: true,
+            regions: [
+                { conflict: true, text: "", base: "", ours: "The quick red fox.\n", theirs: "The quick green fox.\n" },
+                { conflict: false, text: "Jumps over\n", base: "Jumps over\n", ours: "Jumps over\n", theirs: "Jumps over\n" },
+                { conflict: true, text: "", base: "", ours: "the lazy dog!\n", theirs: "the lazy cat.\n" }
+            ]
+        });
+
+        // With the base, and a last line without a line break.
+        result = dmp.merge3("a b c", "a x c", "a y c");
+        text = dmp.merge_toMarkers(result, true);
+        expect(text).toEqual("<<<<<<< ours\na x c\n||||||| base\na b c\n=======\na y c\n>>>>>>> theirs\n");
+        expect(dmp.merge_fromMarkers(text).regions).toStrictEqual([
+            { conflict: true, text: "", base: "a b c\n", ours: "a x c\n", theirs: "a y c\n" }
+        ]);
+
+        // Clean merges have no markers.
+        expect(dmp.merge_toMarkers(dmp.merge3("a b c", "a x c", "a b c"))).toEqual("a x c");
+        expect(dmp.merge_fromMarkers("a x c")).toStrictEqual({
+            conflict: false,
+            regions: [{ conflict: false, text: "a x c", base: "a x c", ours: "a x c", theirs: "a x c" }]
+        });
+
+        // Test unterminated conflicts.
+        try
+        {
+            dmp.merge_fromMarkers("<<<<<<< ours\na\n=======\nb\n");
+            fail("Should generates error of unterminated conflicts");
+        }
+        catch (e: any)
+        {
+            // Exception expected.
+            expect(e.message).toEqual("Unterminated conflict. (merge_fromMarkers)");
+        }
+    });
+    //#endregion MERGE TEST FUNCTIONS
 });
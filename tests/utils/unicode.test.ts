@@ -0,0 +1,55 @@
+import { unicode } from "../../src/utils";
+
+describe("diff-match-patch-ts - utils/unicode", () =>
+{
+    const text = "e\u0301\r\n\uD83D\uDC68\u200D\uD83D\uDC69\u200D\uD83D\uDC67\uD83D\uDC4D\uD83C\uDFFD\uD83C\uDDEB\uD83C\uDDF7\u2764\uFE0Fa";
+    const expected = [
+        "e\u0301",
+        "\r\n",
+        "\uD83D\uDC68\u200D\uD83D\uDC69\u200D\uD83D\uDC67",
+        "\uD83D\uDC4D\uD83C\uDFFD",
+        "\uD83C\uDDEB\uD83C\uDDF7",
+        "\u2764\uFE0F",
+        "a"
+    ];
+
+    it("graphemes", () =>
+    {
+        expect(unicode.graphemes(text)).toStrictEqual(expected);
+        expect(unicode.graphemes("")).toStrictEqual([]);
+
+        // Long texts are segmented in chunks, which cut no grapheme.
+        let long = "";
+        let longExpected: string[] = [];
+        for (let x = 0; x < 300; x++)
+        {
+            long += text;
+            longExpected = longExpected.concat(expected);
+        }
+        expect(unicode.graphemes(long)).toStrictEqual(longExpected);
+        const cut = "a".repeat(1023) + "\uD83D\uDC4D\uD83C\uDFFD";
+        expect(unicode.graphemes(cut).slice(1022)).toStrictEqual(["a", "\uD83D\uDC4D\uD83C\uDFFD"]);
+        const marks = "e" + "\u0301".repeat(3000);
+        expect(unicode.graphemes(marks + "a")).toStrictEqual([marks, "a"]);
+    });
+
+    it("simpleGraphemes", () =>
+    {
+        expect(unicode.simpleGraphemes(text)).toStrictEqual(expected);
+        expect(unicode.simpleGraphemes("")).toStrictEqual([]);
+        // Lone surrogates are graphemes of their own.
+        expect(unicode.simpleGraphemes("\uDE00\uD83Da")).toStrictEqual(["\uDE00", "\uD83D", "a"]);
+    });
+
+    it("words", () =>
+    {
+        expect(unicode.words("我们明天去北京 and back.")).toStrictEqual(["我们", "明天", "去", "北京", " ", "and", " ", "back", "."]);
+        expect(unicode.words("")).toStrictEqual([]);
+    });
+
+    it("simpleWords", () =>
+    {
+        expect(unicode.simpleWords("東京都に住んでいますカタカナ")).toStrictEqual(["東京都", "に", "住", "ん", "で", "い", "ま", "す", "カタカナ"]);
+        expect(unicode.simpleWords("")).toStrictEqual([]);
+    });
+});